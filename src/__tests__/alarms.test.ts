@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { AlarmSeverity, ComfoAirAlarms, decodeAlarms, getAlarm } from '../alarms';
+
+describe('Alarms', () => {
+    it('should decode an empty bitmap', () => {
+        expect(decodeAlarms(new Uint8Array(16))).toEqual([]);
+    });
+
+    it('should decode the active alarms from the error bitmap', () => {
+        const errors = new Uint8Array(16);
+        errors[2] = 1 << 5; // error 21
+        errors[8] = 1 << 6; // error 70
+        const alarms = decodeAlarms(errors);
+        expect(alarms.map((a) => a.id)).toEqual([21, 70]);
+        expect(alarms[0]).toEqual({ id: 21, ...ComfoAirAlarms[21] });
+        expect(alarms[0].severity).toBe(AlarmSeverity.Critical);
+        expect(alarms[1].name).toBe('FILTER_REPLACE');
+    });
+
+    it('should return unknown alarms for codes not in the catalog', () => {
+        expect(getAlarm(1)).toEqual({
+            id: 1,
+            name: 'UNKNOWN_1',
+            description: 'Unknown error 1',
+            severity: AlarmSeverity.Warning,
+        });
+    });
+});
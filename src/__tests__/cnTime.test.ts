@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { decodeCnTime, encodeCnTime } from '../cnTime';
+import { InvalidArgumentError } from '../errors';
+
+describe('CN_TIME codec', () => {
+    it('should decode the epoch as 2000-01-01 local time', () => {
+        expect(decodeCnTime(0)).toEqual(new Date(2000, 0, 1, 0, 0, 0));
+    });
+
+    it('should decode seconds as wall-clock time', () => {
+        expect(decodeCnTime(86400 + 3600 + 61)).toEqual(new Date(2000, 0, 2, 1, 1, 1));
+        expect(decodeCnTime(305419896)).toEqual(new Date(2009, 8, 4, 22, 51, 36));
+    });
+
+    it('should encode a date as seconds since the epoch', () => {
+        expect(encodeCnTime(new Date(2000, 0, 1))).toBe(0);
+        expect(encodeCnTime(new Date(2009, 8, 4, 22, 51, 36, 999))).toBe(305419896);
+    });
+
+    it('should round-trip dates', () => {
+        const date = new Date(2024, 6, 15, 13, 45, 10);
+        expect(decodeCnTime(encodeCnTime(date))).toEqual(date);
+    });
+
+    it('should throw for dates before the epoch', () => {
+        expect(() => encodeCnTime(new Date(1999, 11, 31, 23, 59, 59))).toThrow('dates before 2000-01-01');
+        expect(() => encodeCnTime(new Date(1990, 0, 1))).toThrow(InvalidArgumentError);
+    });
+});
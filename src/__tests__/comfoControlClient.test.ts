@@ -1,11 +1,31 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { EventEmitter } from 'node:events';
-import { ComfoControlClient } from '../comfoControlClient';
+import { BalanceMode, ComfoControlClient, OperationMode } from '../comfoControlClient';
 import { ComfoControlTransport } from '../comfoControlTransport';
 import { Opcode, Result } from '../protocol/comfoConnect';
 import { Logger } from '../util/logging/index';
-import { DeviceProperty } from '../deviceProperties';
+import {
+    BypassActivationMode,
+    BypassState,
+    ComfoAirProperties,
+    DeviceProperty,
+    FanMode,
+    TemperatureProfile,
+} from '../deviceProperties';
 import { ComfoControlMessage } from '../comfoControlMessage';
+import { encodeCnTime } from '../cnTime';
+import { NodeModeType, NodeProductType } from '../consts';
+import {
+    ConnectionLostError,
+    GatewayResultError,
+    InvalidArgumentError,
+    InvalidPinError,
+    RequestTimeoutError,
+    RmiError,
+    SessionError,
+} from '../errors';
+import { ErrorCodes, NodeTypes, VentilationUnitProperties } from '../rmiProperties';
+import { GetScheduleEntryMessage, ScheduleEntryType, ScheduleSubunit } from '../rmiMessage';
 
 vi.mock('../comfoControlTransport', () => {
     const transportMock = new EventEmitter() as any;
@@ -19,7 +39,10 @@ vi.mock('../comfoControlTransport', () => {
     });
     transportMock.send = vi.fn(async function () {
         process.nextTick(() => {
-            this.emit('message', this.messages.shift());
+            const message = this.messages.shift();
+            if (message) {
+                this.emit('message', message);
+            }
         });
         return ++this.id;
     });
@@ -36,6 +59,7 @@ describe('ComfoControlClient', () => {
 
     beforeEach(() => {
         mockTransport = new (ComfoControlTransport as any)();
+        mockTransport.removeAllListeners();
         mockTransport.isConnected = false;
         mockTransport.isConnecting = false;
         mockTransport.id = 0;
@@ -85,21 +109,275 @@ describe('ComfoControlClient', () => {
     });
 
     it('should get server time', async () => {
-        const baseTime = new Date(2000, 1, 1).getTime();
-        const currentTime = Date.now();
         mockTransport.messages = [
             ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
             ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
             ComfoControlMessage.fromJson(
                 { opcode: Opcode.CN_TIME_CONFIRM, id: 3, result: Result.OK },
-                { currentTime: Math.floor((Date.now() - baseTime) / 1000) },
+                { currentTime: encodeCnTime(new Date(2024, 2, 31, 12, 30, 15)) },
             ),
         ];
 
         const serverTime = await client.getServerTime();
 
         expect(mockTransport.send).toHaveBeenCalledWith(Opcode.CN_TIME_REQUEST, expect.any(Object));
-        expect(serverTime.getTime()).toBeCloseTo(Math.floor(currentTime / 1000) * 1000, -2);
+        expect(serverTime).toEqual(new Date(2024, 2, 31, 12, 30, 15));
+    });
+
+    it('should set server time', async () => {
+        const time = new Date(2024, 2, 31, 12, 30, 15);
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+            ComfoControlMessage.fromJson(
+                { opcode: Opcode.CN_TIME_CONFIRM, id: 3, result: Result.OK },
+                { currentTime: encodeCnTime(time) },
+            ),
+        ];
+
+        await expect(client.setServerTime(time)).resolves.toEqual(time);
+        expect(mockTransport.send).toHaveBeenCalledWith(Opcode.CN_TIME_REQUEST, { setTime: encodeCnTime(time) });
+    });
+
+    it('should sync the clock when the drift exceeds the threshold', async () => {
+        const drifted = new Date(Date.now() + 5 * 60 * 1000);
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+            ComfoControlMessage.fromJson(
+                { opcode: Opcode.CN_TIME_CONFIRM, id: 3, result: Result.OK },
+                { currentTime: encodeCnTime(drifted) },
+            ),
+            ComfoControlMessage.fromJson(
+                { opcode: Opcode.CN_TIME_CONFIRM, id: 4, result: Result.OK },
+                { currentTime: encodeCnTime(new Date()) },
+            ),
+        ];
+
+        const result = await client.syncClock(60);
+
+        expect(result.corrected).toBe(true);
+        expect(result.drift).toBeGreaterThan(4 * 60 * 1000);
+        expect(mockTransport.send).toHaveBeenLastCalledWith(Opcode.CN_TIME_REQUEST, {
+            setTime: expect.any(Number),
+        });
+    });
+
+    it('should not sync the clock when the drift is within the threshold', async () => {
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+            ComfoControlMessage.fromJson(
+                { opcode: Opcode.CN_TIME_CONFIRM, id: 3, result: Result.OK },
+                { currentTime: encodeCnTime(new Date()) },
+            ),
+        ];
+
+        const result = await client.syncClock();
+
+        expect(result.corrected).toBe(false);
+        expect(mockTransport.send).toHaveBeenCalledTimes(3);
+    });
+
+    it('should get gateway info', async () => {
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+            ComfoControlMessage.fromJson(
+                { opcode: Opcode.VERSION_CONFIRM, id: 3, result: Result.OK },
+                { gatewayVersion: 0xc0100c03, serialNumber: 'DEM0116371006', comfoNetVersion: 0xc0000001 },
+            ),
+        ];
+
+        const info = await client.getGatewayInfo();
+
+        expect(mockTransport.send).toHaveBeenCalledWith(Opcode.VERSION_REQUEST, expect.any(Object));
+        expect(info).toEqual({
+            gatewayVersion: { stage: 3, major: 1, minor: 3, patch: 3 },
+            serialNumber: 'DEM0116371006',
+            comfoNetVersion: { stage: 3, major: 0, minor: 0, patch: 1 },
+        });
+    });
+
+    it('should list registered apps', async () => {
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+            ComfoControlMessage.fromJson(
+                { opcode: Opcode.LIST_REGISTERED_APPS_CONFIRM, id: 3, result: Result.OK },
+                {
+                    apps: [
+                        {
+                            uuid: Buffer.from('20200428000000000000000009080407', 'hex'),
+                            deviceName: 'Phone',
+                        },
+                    ],
+                },
+            ),
+        ];
+
+        const apps = await client.listRegisteredApps();
+
+        expect(apps).toEqual([{ uuid: '20200428000000000000000009080407', deviceName: 'Phone' }]);
+    });
+
+    it('should deregister an app', async () => {
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.UNREGISTER_DEVICE_CONFIRM, id: 3, result: Result.OK }),
+        ];
+
+        await client.deregisterApp('00000000000000000000000000000abc');
+
+        expect(mockTransport.send).toHaveBeenCalledWith(Opcode.UNREGISTER_DEVICE_REQUEST, {
+            uuid: Buffer.from('00000000000000000000000000000abc', 'hex'),
+        });
+        await expect(client.deregisterApp('not-a-uuid')).rejects.toThrow('Invalid app UUID');
+        await expect(client.deregisterApp('not-a-uuid')).rejects.toBeInstanceOf(InvalidArgumentError);
+    });
+
+    it('should change the PIN code', async () => {
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.CHANGE_PIN_CONFIRM, id: 3, result: Result.OK }),
+        ];
+
+        await client.changePin(0, 1234);
+
+        expect(mockTransport.send).toHaveBeenCalledWith(Opcode.CHANGE_PIN_REQUEST, { oldPin: 0, newPin: 1234 });
+        expect(client['pin']).toBe(1234);
+    });
+
+    it('should throw an InvalidPinError when the current PIN is rejected', async () => {
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.CHANGE_PIN_CONFIRM, id: 3, result: Result.NOT_ALLOWED }),
+        ];
+
+        const err = await client.changePin(1111, 1234).catch((e) => e);
+        expect(err).toBeInstanceOf(InvalidPinError);
+        expect(err.result).toBe(Result.NOT_ALLOWED);
+    });
+
+    it('should throw an InvalidArgumentError for PIN codes outside of the valid range', async () => {
+        await expect(client.changePin(0, 10000)).rejects.toThrow('Invalid PIN code: 10000');
+        await expect(client.changePin(-1, 1234)).rejects.toThrow('Invalid PIN code: -1');
+        await expect(client.changePin(12.5, 1234)).rejects.toBeInstanceOf(InvalidArgumentError);
+        expect(mockTransport.send).not.toHaveBeenCalledWith(Opcode.CHANGE_PIN_REQUEST, expect.anything());
+    });
+
+    it('should track nodes and emit node events', () => {
+        const nodeAdded = vi.fn();
+        const nodeChanged = vi.fn();
+        client.on('nodeAdded', nodeAdded);
+        client.on('nodeChanged', nodeChanged);
+
+        const notify = (mode: NodeModeType) =>
+            mockTransport.emit(
+                'message',
+                ComfoControlMessage.fromJson(
+                    { opcode: Opcode.CN_NODE_NOTIFICATION, id: 100 },
+                    { nodeId: 1, productId: NodeProductType.ComfoAirQ, zoneId: 1, mode },
+                ),
+            );
+        notify(NodeModeType.NODE_NORMAL);
+        notify(NodeModeType.NODE_NORMAL);
+        notify(NodeModeType.NODE_OFFLINE);
+
+        const node = { id: 1, productType: NodeProductType.ComfoAirQ, zoneId: 1, mode: NodeModeType.NODE_OFFLINE };
+        expect(nodeAdded).toHaveBeenCalledTimes(1);
+        expect(nodeChanged).toHaveBeenCalledTimes(1);
+        expect(nodeChanged).toHaveBeenCalledWith(node, { ...node, mode: NodeModeType.NODE_NORMAL });
+        expect(client.getNodes()).toEqual([node]);
+    });
+
+    it('should refresh nodes', async () => {
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+            ComfoControlMessage.fromJson(
+                { opcode: Opcode.CN_NODE_NOTIFICATION, id: 0 },
+                { nodeId: 2, productId: NodeProductType.ComfoCool, zoneId: 1, mode: NodeModeType.NODE_NORMAL },
+            ),
+        ];
+
+        const nodes = await client.refreshNodes(10);
+
+        expect(mockTransport.send).toHaveBeenCalledWith(Opcode.CN_NODE_REQUEST, {});
+        expect(nodes).toEqual([
+            { id: 2, productType: NodeProductType.ComfoCool, zoneId: 1, mode: NodeModeType.NODE_NORMAL },
+        ]);
+    });
+
+    it('should emit an alarm event for alarm notifications', () => {
+        const listener = vi.fn();
+        client.on('alarm', listener);
+        const errors = new Uint8Array(16);
+        errors[8] = 1 << 6; // error 70
+
+        mockTransport.emit(
+            'message',
+            ComfoControlMessage.fromJson(
+                { opcode: Opcode.CN_ALARM_NOTIFICATION, id: 100 },
+                {
+                    zone: 1,
+                    productId: NodeProductType.ComfoAirQ,
+                    productVariant: 1,
+                    serialNumber: 'SIT0123456789',
+                    swProgramVersion: 0xc0100c03,
+                    errors,
+                    errorId: 70,
+                    nodeId: 1,
+                },
+            ),
+        );
+
+        expect(listener).toHaveBeenCalledWith(
+            expect.objectContaining({
+                nodeId: 1,
+                productType: NodeProductType.ComfoAirQ,
+                serialNumber: 'SIT0123456789',
+                firmwareVersion: { stage: 3, major: 1, minor: 3, patch: 3 },
+                error: expect.objectContaining({ id: 70, name: 'FILTER_REPLACE' }),
+                alarms: [expect.objectContaining({ id: 70 })],
+            }),
+        );
+    });
+
+    it('should emit a gatewayNotification event for gateway push notifications', () => {
+        const listener = vi.fn();
+        client.on('gatewayNotification', listener);
+
+        mockTransport.emit(
+            'message',
+            ComfoControlMessage.fromJson(
+                { opcode: Opcode.GATEWAY_NOTIFICATION, id: 100 },
+                {
+                    pushUUIDs: [Buffer.from('0123456789abcdef', 'hex')],
+                    alarm: {
+                        zone: 1,
+                        productId: NodeProductType.ComfoAirQ,
+                        productVariant: 1,
+                        serialNumber: 'SIT0123456789',
+                        swProgramVersion: 0xc0100c03,
+                        errors: new Uint8Array([0, 0, 1 << 5]),
+                        errorId: 21,
+                        nodeId: 1,
+                    },
+                },
+            ),
+        );
+
+        expect(listener).toHaveBeenCalledWith({
+            pushUuids: ['0123456789abcdef'],
+            alarm: expect.objectContaining({
+                nodeId: 1,
+                error: expect.objectContaining({ id: 21, name: 'OVERHEATING' }),
+            }),
+        });
     });
 
     it('should register a property listener', async () => {
@@ -119,4 +397,821 @@ describe('ComfoControlClient', () => {
         expect(client['deviceProperties'][property.propertyId].listners).toContain(listener);
         expect(client['deviceProperties'][property.propertyId].registered).toBe(true);
     });
+
+    it('should reconnect and restore the session after a disconnect', async () => {
+        client = new ComfoControlClient(
+            {
+                address: '127.0.0.1',
+                uuid: '0123456789abcdef0123456789abcdef',
+                reconnect: { initialDelay: 1, jitter: 0 },
+            },
+            logger,
+        );
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.CN_RPDO_CONFIRM, id: 3, result: Result.OK }),
+        ];
+        const property: DeviceProperty = { propertyId: 65, dataType: 1 };
+        await client.registerPropertyListener(property, vi.fn());
+
+        const reconnecting = vi.fn();
+        client.on('reconnecting', reconnecting);
+        const reconnected = new Promise<number>((resolve) => client.once('reconnected', resolve));
+
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 4, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 5, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.CN_RPDO_CONFIRM, id: 6, result: Result.OK }),
+        ];
+        mockTransport.send.mockClear();
+        mockTransport.isConnected = false;
+        mockTransport.emit('disconnect');
+        expect(client.sessionActive).toBe(false);
+
+        await expect(reconnected).resolves.toBe(1);
+        expect(reconnecting).toHaveBeenCalledWith(1, 1);
+        expect(client.sessionActive).toBe(true);
+        await vi.waitFor(() => expect(mockTransport.messages).toHaveLength(0));
+        expect(mockTransport.send).toHaveBeenCalledWith(Opcode.CN_RPDO_REQUEST, expect.objectContaining({ pdid: 65 }));
+    });
+
+    it('should not reconnect after the session was stopped', async () => {
+        client = new ComfoControlClient(
+            {
+                address: '127.0.0.1',
+                uuid: '0123456789abcdef0123456789abcdef',
+                reconnect: { initialDelay: 1, jitter: 0 },
+            },
+            logger,
+        );
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.CLOSE_SESSION_CONFIRM, id: 3, result: Result.OK }),
+        ];
+        await client.startSession();
+        await client.stopSession();
+
+        const opcodes = mockTransport.send.mock.calls.map(([opcode]: [Opcode]) => opcode);
+        expect(opcodes).toEqual([
+            Opcode.REGISTER_DEVICE_REQUEST,
+            Opcode.START_SESSION_REQUEST,
+            Opcode.CLOSE_SESSION_REQUEST,
+        ]);
+        expect(client.sessionActive).toBe(false);
+
+        const reconnecting = vi.fn();
+        client.on('reconnecting', reconnecting);
+        mockTransport.isConnected = false;
+        mockTransport.emit('disconnect');
+
+        expect(reconnecting).not.toHaveBeenCalled();
+    });
+
+    it('should not reconnect when reconnect is disabled', async () => {
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+        ];
+        await client.startSession();
+
+        const reconnecting = vi.fn();
+        client.on('reconnecting', reconnecting);
+        mockTransport.isConnected = false;
+        mockTransport.emit('disconnect');
+
+        expect(client.sessionActive).toBe(false);
+        expect(reconnecting).not.toHaveBeenCalled();
+    });
+
+    it('should reject pending requests when the transport disconnects', async () => {
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+        ];
+        await client.startSession();
+
+        const request = client.send(Opcode.CN_TIME_REQUEST);
+        await vi.waitFor(() => expect(client['pendingReplies'][3]).toBeDefined());
+        mockTransport.isConnected = false;
+        mockTransport.emit('disconnect');
+
+        await expect(request).rejects.toBeInstanceOf(ConnectionLostError);
+        await expect(request).rejects.toMatchObject({ opcode: Opcode.CN_TIME_REQUEST });
+        expect(client['pendingReplies']).toEqual({});
+    });
+
+    it('should reject pending requests when the session is closed by the gateway', async () => {
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+        ];
+        await client.startSession();
+
+        const request = client.send(Opcode.CN_TIME_REQUEST);
+        await vi.waitFor(() => expect(client['pendingReplies'][3]).toBeDefined());
+        mockTransport.emit('message', ComfoControlMessage.fromJson({ opcode: Opcode.CLOSE_SESSION_REQUEST, id: 10 }));
+
+        await expect(request).rejects.toBeInstanceOf(ConnectionLostError);
+        expect(mockTransport.disconnect).toHaveBeenCalled();
+        expect(client.sessionActive).toBe(false);
+    });
+
+    it('should replay idempotent reads after reconnecting', async () => {
+        client = new ComfoControlClient(
+            {
+                address: '127.0.0.1',
+                uuid: '0123456789abcdef0123456789abcdef',
+                reconnect: { initialDelay: 1, jitter: 0, replayReads: true },
+            },
+            logger,
+        );
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+        ];
+        await client.startSession();
+
+        const read = client.send(Opcode.CN_TIME_REQUEST);
+        const write = client.send(Opcode.CN_TIME_REQUEST, { setTime: 1234 });
+        await vi.waitFor(() => expect(Object.keys(client['pendingReplies'])).toHaveLength(2));
+
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 5, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 6, result: Result.OK }),
+            ComfoControlMessage.fromJson(
+                { opcode: Opcode.CN_TIME_CONFIRM, id: 7, result: Result.OK },
+                { currentTime: 1000 },
+            ),
+        ];
+        mockTransport.isConnected = false;
+        mockTransport.emit('disconnect');
+
+        await expect(write).rejects.toBeInstanceOf(ConnectionLostError);
+        const response = await read;
+        expect(response.deserialize().currentTime).toBe(1000);
+    });
+
+    it('should throw a SessionError when registration is rejected', async () => {
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.NOT_ALLOWED }),
+        ];
+
+        const err = await client.startSession().catch((e) => e);
+        expect(err).toBeInstanceOf(SessionError);
+        expect(err.message).toBe('Failed to register: NOT_ALLOWED');
+        expect(err.result).toBe(Result.NOT_ALLOWED);
+        expect(client.sessionActive).toBe(false);
+    });
+
+    it('should throw a GatewayResultError when the gateway rejects a request', async () => {
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+            ComfoControlMessage.fromJson(
+                { opcode: Opcode.CN_TIME_CONFIRM, id: 3, result: Result.BAD_REQUEST },
+                { currentTime: 0 },
+            ),
+        ];
+
+        const err = await client.send(Opcode.CN_TIME_REQUEST).catch((e) => e);
+        expect(err).toBeInstanceOf(GatewayResultError);
+        expect(err.opcode).toBe(Opcode.CN_TIME_REQUEST);
+        expect(err.result).toBe(Result.BAD_REQUEST);
+    });
+
+    it('should throw a RequestTimeoutError when the gateway does not respond', async () => {
+        client = new ComfoControlClient(
+            { address: '127.0.0.1', uuid: '0123456789abcdef0123456789abcdef', requestTimeout: 10 },
+            logger,
+        );
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+        ];
+
+        const err = await client.send(Opcode.CN_TIME_REQUEST).catch((e) => e);
+        expect(err).toBeInstanceOf(RequestTimeoutError);
+        expect(err.timeout).toBe(10);
+    });
+
+    it('should not replay timed-out requests after reconnecting', async () => {
+        client = new ComfoControlClient(
+            {
+                address: '127.0.0.1',
+                uuid: '0123456789abcdef0123456789abcdef',
+                requestTimeout: 10,
+                reconnect: { initialDelay: 1, jitter: 0, replayReads: true },
+            },
+            logger,
+        );
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+        ];
+        await client.startSession();
+
+        await expect(client.send(Opcode.CN_TIME_REQUEST)).rejects.toBeInstanceOf(RequestTimeoutError);
+        expect(client['pendingReplies']).toEqual({});
+
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 4, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 5, result: Result.OK }),
+        ];
+        mockTransport.isConnected = false;
+        const reconnected = new Promise((resolve) => client.once('reconnected', resolve));
+        mockTransport.emit('disconnect');
+        await reconnected;
+
+        const timeRequests = mockTransport.send.mock.calls.filter(([opcode]) => opcode === Opcode.CN_TIME_REQUEST);
+        expect(timeRequests).toHaveLength(1);
+    });
+
+    it('should throw an RmiError when reading a property fails', async () => {
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+            ComfoControlMessage.fromJson(
+                { opcode: Opcode.CN_RMI_RESPONSE, id: 3, result: Result.RMI_ERROR },
+                { result: ErrorCodes.UNKNOWN_PROPERTY, message: new Uint8Array() },
+            ),
+        ];
+
+        const prop = VentilationUnitProperties.NODE.SERIAL_NUMBER;
+        const err = await client.readProperty(prop).catch((e) => e);
+        expect(err).toBeInstanceOf(RmiError);
+        expect(err).toMatchObject({
+            errorCode: ErrorCodes.UNKNOWN_PROPERTY,
+            node: prop.node,
+            unit: prop.unit,
+            propertyId: prop.propertyId,
+        });
+        expect(err.message).toBe('Failed to read property: UNKNOWN_PROPERTY (14)');
+    });
+
+    it('should resolve the async RMI response that matches the confirmed request', async () => {
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+            ComfoControlMessage.fromJson(
+                { opcode: Opcode.CN_RMI_ASYNC_CONFIRM, id: 3, result: Result.OK },
+                { result: 0 },
+            ),
+        ];
+
+        const operation = await client.executeRmiAsync(1, [0x01, 0x01, 0x01, 0x10, 0x04]);
+        expect(operation.id).toBe(3);
+        expect(mockTransport.send).toHaveBeenLastCalledWith(Opcode.CN_RMI_ASYNC_REQUEST, {
+            nodeId: 1,
+            message: Buffer.from([0x01, 0x01, 0x01, 0x10, 0x04]),
+        });
+
+        // Responses to other requests are not correlated with the operation
+        mockTransport.emit(
+            'message',
+            ComfoControlMessage.fromJson(
+                { opcode: Opcode.CN_RMI_ASYNC_RESPONSE, id: 4, result: Result.OK },
+                { result: 0, message: Buffer.from([0xff]) },
+            ),
+        );
+        mockTransport.emit(
+            'message',
+            ComfoControlMessage.fromJson(
+                { opcode: Opcode.CN_RMI_ASYNC_RESPONSE, id: 3, result: Result.OK },
+                { result: 0, message: Buffer.from('SIT0123', 'utf-8') },
+            ),
+        );
+
+        await expect(operation.response).resolves.toEqual(Buffer.from('SIT0123', 'utf-8'));
+    });
+
+    it('should reject the async RMI response with an RmiError when the node reports an error', async () => {
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+            ComfoControlMessage.fromJson(
+                { opcode: Opcode.CN_RMI_ASYNC_CONFIRM, id: 3, result: Result.OK },
+                { result: 0 },
+            ),
+        ];
+
+        const operation = await client.executeRmiAsync(1, [0x01, 0x01, 0x01, 0x10, 0xff]);
+        mockTransport.emit(
+            'message',
+            ComfoControlMessage.fromJson(
+                { opcode: Opcode.CN_RMI_ASYNC_RESPONSE, id: 3, result: Result.RMI_ERROR },
+                { result: ErrorCodes.UNKNOWN_PROPERTY, message: new Uint8Array() },
+            ),
+        );
+
+        const err = await operation.response.catch((e) => e);
+        expect(err).toBeInstanceOf(RmiError);
+        expect(err).toMatchObject({ errorCode: ErrorCodes.UNKNOWN_PROPERTY, node: 1, unit: 1, subunit: 1 });
+    });
+
+    it('should reject pending async RMI responses when the connection is lost', async () => {
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+            ComfoControlMessage.fromJson(
+                { opcode: Opcode.CN_RMI_ASYNC_CONFIRM, id: 3, result: Result.OK },
+                { result: 0 },
+            ),
+        ];
+
+        const operation = await client.executeRmiAsync(1, [0x01, 0x01, 0x01, 0x10, 0x04]);
+        mockTransport.emit('disconnect');
+
+        await expect(operation.response).rejects.toBeInstanceOf(ConnectionLostError);
+    });
+
+    it('should not leave an unhandled rejection when only the async RMI confirm is awaited', async () => {
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+            ComfoControlMessage.fromJson(
+                { opcode: Opcode.CN_RMI_ASYNC_CONFIRM, id: 3, result: Result.OK },
+                { result: 0 },
+            ),
+        ];
+        const unhandledRejection = vi.fn();
+        process.on('unhandledRejection', unhandledRejection);
+
+        try {
+            await client.executeRmiAsync(1, [0x01, 0x01, 0x01, 0x10, 0x04], { responseTimeout: 5 });
+            await new Promise((resolve) => setTimeout(resolve, 50));
+        } finally {
+            process.off('unhandledRejection', unhandledRejection);
+        }
+
+        expect(unhandledRejection).not.toHaveBeenCalled();
+        expect(client['pendingAsyncResponses']).toEqual({});
+    });
+
+    it('should batch multi-property reads per unit and subunit', async () => {
+        const nodeProps = VentilationUnitProperties.NODE;
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+            ComfoControlMessage.fromJson(
+                { opcode: Opcode.CN_RMI_RESPONSE, id: 3, result: Result.OK },
+                { result: 0, message: Buffer.from('SIT123\0Q450\0', 'utf8') },
+            ),
+            ComfoControlMessage.fromJson(
+                { opcode: Opcode.CN_RMI_RESPONSE, id: 4, result: Result.OK },
+                { result: 0, message: Buffer.from([0xd2, 0x00]) },
+            ),
+        ];
+
+        const values = await client.readProperties([
+            nodeProps.SERIAL_NUMBER,
+            VentilationUnitProperties.TEMPHUMCONTROL.TARGET_TEMPERATURE_HEATING,
+            nodeProps.MODEL_NUMBER,
+        ]);
+
+        expect(values).toEqual(['SIT123', 21, 'Q450']);
+        expect(mockTransport.send).toHaveBeenCalledWith(Opcode.CN_RMI_REQUEST, {
+            nodeId: 1,
+            message: Buffer.from([0x02, 0x01, 0x01, 0x01, 0x12, 0x04, 0x08]),
+        });
+    });
+
+    it('should send RMI messages to the node they target', async () => {
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+            ComfoControlMessage.fromJson(
+                { opcode: Opcode.CN_RMI_RESPONSE, id: 3, result: Result.OK },
+                { result: 0, message: Buffer.from([0x02]) },
+            ),
+        ];
+
+        const entry = await client.executeRmi(new GetScheduleEntryMessage(1, 1, NodeTypes.OPTION_BOX));
+
+        expect(entry.value).toBe(2);
+        expect(mockTransport.send).toHaveBeenCalledWith(Opcode.CN_RMI_REQUEST, {
+            nodeId: NodeTypes.OPTION_BOX,
+            message: Buffer.from([0x83, 0x15, 0x01, 0x01]),
+        });
+    });
+
+    it('should set the temperature profile and operating mode with schedule entries', async () => {
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+            ...[3, 4, 5].map((id) =>
+                ComfoControlMessage.fromJson(
+                    { opcode: Opcode.CN_RMI_RESPONSE, id, result: Result.OK },
+                    { result: 0, message: new Uint8Array() },
+                ),
+            ),
+        ];
+
+        await client.setTempratureProfile(TemperatureProfile.Warm);
+        expect(mockTransport.send).toHaveBeenLastCalledWith(Opcode.CN_RMI_REQUEST, {
+            nodeId: 1,
+            message: Buffer.from([0x84, 0x15, 0x03, 0x01, 0, 0, 0, 0, 0xff, 0xff, 0xff, 0xff, TemperatureProfile.Warm]),
+        });
+
+        await client.setOperatingMode(OperationMode.Manual);
+        expect(mockTransport.send).toHaveBeenLastCalledWith(Opcode.CN_RMI_REQUEST, {
+            nodeId: 1,
+            message: Buffer.from([0x84, 0x15, 0x08, 0x01, 0, 0, 0, 0, 0x01, 0, 0, 0, 0x01]),
+        });
+
+        await client.setOperatingMode(OperationMode.Auto);
+        expect(mockTransport.send).toHaveBeenLastCalledWith(Opcode.CN_RMI_REQUEST, {
+            nodeId: 1,
+            message: Buffer.from([0x85, 0x15, 0x08, 0x01]),
+        });
+    });
+
+    it('should set a fan mode that expires after the given duration', async () => {
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+            ComfoControlMessage.fromJson(
+                { opcode: Opcode.CN_RMI_RESPONSE, id: 3, result: Result.OK },
+                { result: 0, message: new Uint8Array() },
+            ),
+            ComfoControlMessage.fromJson(
+                { opcode: Opcode.CN_RMI_RESPONSE, id: 4, result: Result.OK },
+                { result: 0, message: new Uint8Array() },
+            ),
+            ComfoControlMessage.fromJson(
+                { opcode: Opcode.CN_RMI_RESPONSE, id: 5, result: Result.OK },
+                { result: 0, message: new Uint8Array() },
+            ),
+        ];
+
+        await client.setFanMode(FanMode.Medium, { durationSeconds: 1800 });
+        await client.boost(600);
+        await client.cancelBoost();
+
+        expect(mockTransport.send).toHaveBeenCalledWith(Opcode.CN_RMI_REQUEST, {
+            nodeId: 1,
+            message: Buffer.from([0x84, 0x15, 0x01, 0x01, 0, 0, 0, 0, 0x08, 0x07, 0, 0, FanMode.Medium]),
+        });
+        expect(mockTransport.send).toHaveBeenCalledWith(Opcode.CN_RMI_REQUEST, {
+            nodeId: 1,
+            message: Buffer.from([0x84, 0x15, 0x01, 0x06, 0, 0, 0, 0, 0x58, 0x02, 0, 0, FanMode.High]),
+        });
+        expect(mockTransport.send).toHaveBeenLastCalledWith(Opcode.CN_RMI_REQUEST, {
+            nodeId: 1,
+            message: Buffer.from([0x85, 0x15, 0x01, 0x06]),
+        });
+        await expect(client.boost(0)).rejects.toBeInstanceOf(InvalidArgumentError);
+        await expect(client.boost(0)).rejects.toThrow('Invalid duration: 0');
+    });
+
+    it('should reject invalid arguments of the ventilation methods with an InvalidArgumentError', async () => {
+        await expect(client.setFanMode(9 as FanMode)).rejects.toBeInstanceOf(InvalidArgumentError);
+        await expect(client.setFanMode(FanMode.High, { durationSeconds: 1.5 })).rejects.toBeInstanceOf(
+            InvalidArgumentError,
+        );
+        await expect(client.setBypass('half' as 'open')).rejects.toBeInstanceOf(InvalidArgumentError);
+        await expect(client.setBypass('open', { durationSeconds: -1 })).rejects.toBeInstanceOf(InvalidArgumentError);
+        await expect(client.setSupplyOnly(0)).rejects.toBeInstanceOf(InvalidArgumentError);
+        await expect(client.setTempratureProfile(9 as TemperatureProfile)).rejects.toBeInstanceOf(InvalidArgumentError);
+        await expect(client.setOperatingMode(9 as OperationMode)).rejects.toBeInstanceOf(InvalidArgumentError);
+        expect(mockTransport.send).not.toHaveBeenCalled();
+    });
+
+    it('should read the active schedule entries with the remaining time', async () => {
+        // Responses of an active entry start with 01, an entry that is not active answers with 00
+        const active = (value: number) =>
+            Buffer.concat([Buffer.from('0100000000ffffffffffffffff', 'hex'), Buffer.from([value])]);
+        const inactive = Buffer.from('0000000000ffffffff00000000', 'hex');
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+            ComfoControlMessage.fromJson(
+                { opcode: Opcode.CN_RMI_RESPONSE, id: 3, result: Result.OK },
+                { result: 0, message: active(FanMode.Low) },
+            ),
+            ComfoControlMessage.fromJson(
+                { opcode: Opcode.CN_RMI_RESPONSE, id: 4, result: Result.OK },
+                { result: 0, message: active(FanMode.High) },
+            ),
+            ...[5, 6, 7, 8, 9].map((id) =>
+                ComfoControlMessage.fromJson(
+                    { opcode: Opcode.CN_RMI_RESPONSE, id, result: Result.OK },
+                    { result: 0, message: inactive },
+                ),
+            ),
+            ComfoControlMessage.fromJson({ opcode: Opcode.CN_RPDO_CONFIRM, id: 10, result: Result.OK }),
+        ];
+
+        const entries = client.getActiveScheduleEntries();
+        await vi.waitFor(() =>
+            expect(mockTransport.send).toHaveBeenCalledWith(
+                Opcode.CN_RPDO_REQUEST,
+                expect.objectContaining({ pdid: 81 }),
+            ),
+        );
+        mockTransport.emit(
+            'message',
+            ComfoControlMessage.fromJson(
+                { opcode: Opcode.CN_RPDO_NOTIFICATION, id: 11 },
+                { pdid: 81, data: Buffer.from([0x52, 0x02, 0x00, 0x00]) },
+            ),
+        );
+
+        await expect(entries).resolves.toEqual([
+            {
+                subunit: ScheduleSubunit.FAN_SPEED,
+                entryType: ScheduleEntryType.MANUAL,
+                value: FanMode.Low,
+            },
+            {
+                subunit: ScheduleSubunit.FAN_SPEED,
+                entryType: ScheduleEntryType.TIMER,
+                value: FanMode.High,
+                remainingSeconds: 594,
+            },
+        ]);
+    });
+
+    it('should throw an RmiError when reading a schedule entry fails', async () => {
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+            ComfoControlMessage.fromJson(
+                { opcode: Opcode.CN_RMI_RESPONSE, id: 3, result: Result.RMI_ERROR },
+                { result: ErrorCodes.UNKNOWN_PROPERTY, message: new Uint8Array() },
+            ),
+        ];
+
+        const err = await client.getActiveScheduleEntries().catch((e) => e);
+        expect(err).toBeInstanceOf(RmiError);
+        expect(err.errorCode).toBe(ErrorCodes.UNKNOWN_PROPERTY);
+    });
+
+    it('should switch to supply only and back to balanced ventilation', async () => {
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+            ...[3, 4, 5, 6].map((id) =>
+                ComfoControlMessage.fromJson(
+                    { opcode: Opcode.CN_RMI_RESPONSE, id, result: Result.OK },
+                    { result: 0, message: new Uint8Array() },
+                ),
+            ),
+        ];
+
+        await client.setSupplyOnly(3600);
+        await client.resetBalance();
+
+        const messages = mockTransport.send.mock.calls
+            .filter(([opcode]: [Opcode]) => opcode === Opcode.CN_RMI_REQUEST)
+            .map(([, data]: [Opcode, { message: Buffer }]) => data.message);
+        expect(messages).toEqual([
+            Buffer.from([0x85, 0x15, 0x07, 0x01]),
+            Buffer.from([0x84, 0x15, 0x06, 0x01, 0, 0, 0, 0, 0x10, 0x0e, 0, 0, 0x01]),
+            Buffer.from([0x85, 0x15, 0x06, 0x01]),
+            Buffer.from([0x85, 0x15, 0x07, 0x01]),
+        ]);
+        await expect(client.setExhaustOnly(-1)).rejects.toBeInstanceOf(InvalidArgumentError);
+    });
+
+    it('should read the balance mode from the fan mode properties', async () => {
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.CN_RPDO_CONFIRM, id: 3, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.CN_RPDO_CONFIRM, id: 4, result: Result.OK }),
+        ];
+
+        const mode = client.getBalanceMode();
+        for (const [pdid, value] of [
+            [70, 0],
+            [71, 1],
+        ]) {
+            await vi.waitFor(() =>
+                expect(mockTransport.send).toHaveBeenCalledWith(
+                    Opcode.CN_RPDO_REQUEST,
+                    expect.objectContaining({ pdid }),
+                ),
+            );
+            mockTransport.emit(
+                'message',
+                ComfoControlMessage.fromJson(
+                    { opcode: Opcode.CN_RPDO_NOTIFICATION, id: 10 },
+                    { pdid, data: Buffer.from([value]) },
+                ),
+            );
+        }
+
+        await expect(mode).resolves.toBe(BalanceMode.ExhaustOnly);
+    });
+
+    it('should force the bypass open for a limited time and back to auto', async () => {
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+            ...[3, 4, 5].map((id) =>
+                ComfoControlMessage.fromJson(
+                    { opcode: Opcode.CN_RMI_RESPONSE, id, result: Result.OK },
+                    { result: 0, message: new Uint8Array() },
+                ),
+            ),
+        ];
+
+        await client.setBypass('open', { durationSeconds: 28800 });
+        await client.setBypass('closed');
+        await client.setBypass('auto');
+
+        const messages = mockTransport.send.mock.calls
+            .filter(([opcode]: [Opcode]) => opcode === Opcode.CN_RMI_REQUEST)
+            .map(([, data]: [Opcode, { message: Buffer }]) => data.message);
+        expect(messages).toEqual([
+            Buffer.from([0x84, 0x15, 0x02, 0x01, 0, 0, 0, 0, 0x80, 0x70, 0, 0, BypassActivationMode.Open]),
+            Buffer.from([0x84, 0x15, 0x02, 0x01, 0, 0, 0, 0, 0xff, 0xff, 0xff, 0xff, BypassActivationMode.Closed]),
+            Buffer.from([0x85, 0x15, 0x02, 0x01]),
+        ]);
+    });
+
+    it('should decode the bypass status', async () => {
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.CN_RPDO_CONFIRM, id: 3, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.CN_RPDO_CONFIRM, id: 4, result: Result.OK }),
+        ];
+
+        const status = client.getBypassStatus();
+        for (const [pdid, value] of [
+            [66, BypassActivationMode.Open],
+            [227, 40],
+        ]) {
+            await vi.waitFor(() =>
+                expect(mockTransport.send).toHaveBeenCalledWith(
+                    Opcode.CN_RPDO_REQUEST,
+                    expect.objectContaining({ pdid }),
+                ),
+            );
+            mockTransport.emit(
+                'message',
+                ComfoControlMessage.fromJson(
+                    { opcode: Opcode.CN_RPDO_NOTIFICATION, id: 10 },
+                    { pdid, data: Buffer.from([value]) },
+                ),
+            );
+        }
+
+        await expect(status).resolves.toEqual({
+            mode: BypassActivationMode.Open,
+            state: BypassState.PartiallyOpen,
+            position: 40,
+        });
+    });
+
+    it('should read a property value once and serve later reads from the last reported value', async () => {
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.CN_RPDO_CONFIRM, id: 3, result: Result.OK }),
+        ];
+
+        const value = client.readPropertyValue(ComfoAirProperties.BYPASS_STATE);
+        await vi.waitFor(() =>
+            expect(mockTransport.send).toHaveBeenCalledWith(
+                Opcode.CN_RPDO_REQUEST,
+                expect.objectContaining({ pdid: 227 }),
+            ),
+        );
+        mockTransport.emit(
+            'message',
+            ComfoControlMessage.fromJson(
+                { opcode: Opcode.CN_RPDO_NOTIFICATION, id: 10 },
+                { pdid: 227, data: Buffer.from([40]) },
+            ),
+        );
+        await expect(value).resolves.toBe(40);
+
+        // The one-shot listener is removed and the property is not restored after a reconnect
+        expect(client['deviceProperties'][227].listners).toHaveLength(0);
+        expect(client['deviceProperties'][227].registered).toBe(false);
+
+        mockTransport.emit(
+            'message',
+            ComfoControlMessage.fromJson(
+                { opcode: Opcode.CN_RPDO_NOTIFICATION, id: 11 },
+                { pdid: 227, data: Buffer.from([100]) },
+            ),
+        );
+        mockTransport.send.mockClear();
+        await expect(client.readPropertyValue(ComfoAirProperties.BYPASS_STATE)).resolves.toBe(100);
+        expect(mockTransport.send).not.toHaveBeenCalled();
+    });
+
+    it('should read the range of a property', async () => {
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+            ComfoControlMessage.fromJson(
+                { opcode: Opcode.CN_RMI_RESPONSE, id: 3, result: Result.OK },
+                { result: 0, message: Buffer.from([0xc8, 0x00, 0x2c, 0x01, 0x05, 0x00]) },
+            ),
+        ];
+
+        const range = await client.getPropertyRange(
+            VentilationUnitProperties.TEMPHUMCONTROL.TARGET_TEMPERATURE_HEATING,
+        );
+
+        expect(range).toEqual({ min: 20, max: 30, step: 0.5 });
+        expect(mockTransport.send).toHaveBeenLastCalledWith(Opcode.CN_RMI_REQUEST, {
+            nodeId: 1,
+            message: Buffer.from([0x01, 0x1d, 0x01, 0x60, 0x0a]),
+        });
+    });
+
+    it('should validate a value against the range of the property before writing it', async () => {
+        const range = { result: 0, message: Buffer.from([0xc8, 0x00, 0x2c, 0x01, 0x05, 0x00]) };
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.CN_RMI_RESPONSE, id: 3, result: Result.OK }, range),
+            ComfoControlMessage.fromJson({ opcode: Opcode.CN_RMI_RESPONSE, id: 4, result: Result.OK }, range),
+            ComfoControlMessage.fromJson(
+                { opcode: Opcode.CN_RMI_RESPONSE, id: 5, result: Result.OK },
+                { result: 0, message: new Uint8Array() },
+            ),
+        ];
+        const prop = VentilationUnitProperties.TEMPHUMCONTROL.TARGET_TEMPERATURE_HEATING;
+
+        const err = await client.writeProperty(prop, 50, { validateRange: true }).catch((e) => e);
+        expect(err).toBeInstanceOf(RmiError);
+        expect(err.errorCode).toBe(ErrorCodes.VALUE_NOT_IN_RANGE);
+        expect(mockTransport.send).toHaveBeenCalledTimes(3);
+
+        await client.writeProperty(prop, 21.5, { validateRange: true });
+        expect(mockTransport.send).toHaveBeenLastCalledWith(Opcode.CN_RMI_REQUEST, {
+            nodeId: 1,
+            message: Buffer.from([0x03, 0x1d, 0x01, 0x0a, 0xd7, 0x00]),
+        });
+    });
+
+    it('should reject writes to read-only properties with an InvalidArgumentError', async () => {
+        await expect(client.writeProperty(VentilationUnitProperties.NODE.SERIAL_NUMBER, 'x')).rejects.toBeInstanceOf(
+            InvalidArgumentError,
+        );
+        expect(mockTransport.send).not.toHaveBeenCalled();
+    });
+
+    it('should read and reset the active errors', async () => {
+        const errors = Buffer.alloc(16);
+        errors[8] = 1 << 6; // error 70
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+            ComfoControlMessage.fromJson(
+                { opcode: Opcode.CN_RMI_RESPONSE, id: 3, result: Result.OK },
+                { result: 0, message: errors },
+            ),
+            ComfoControlMessage.fromJson(
+                { opcode: Opcode.CN_RMI_RESPONSE, id: 4, result: Result.OK },
+                { result: 0, message: new Uint8Array() },
+            ),
+        ];
+
+        const active = await client.getActiveErrors();
+        expect(active.map((error) => error.name)).toEqual(['FILTER_REPLACE']);
+        expect(mockTransport.send).toHaveBeenLastCalledWith(Opcode.CN_RMI_REQUEST, {
+            nodeId: 1,
+            message: Buffer.from([0x01, 0x03, 0x01, 0x10, 0x01]),
+        });
+
+        await client.resetErrors();
+        expect(mockTransport.send).toHaveBeenLastCalledWith(Opcode.CN_RMI_REQUEST, {
+            nodeId: 1,
+            message: Buffer.from([0x82, 0x03, 0x01]),
+        });
+    });
+
+    it('should read the filter status', async () => {
+        mockTransport.messages = [
+            ComfoControlMessage.fromJson({ opcode: Opcode.REGISTER_DEVICE_CONFIRM, id: 1, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.START_SESSION_CONFIRM, id: 2, result: Result.OK }),
+            ComfoControlMessage.fromJson({ opcode: Opcode.CN_RPDO_CONFIRM, id: 3, result: Result.OK }),
+        ];
+
+        const status = client.getFilterStatus();
+        await vi.waitFor(() =>
+            expect(mockTransport.send).toHaveBeenCalledWith(
+                Opcode.CN_RPDO_REQUEST,
+                expect.objectContaining({ pdid: 192 }),
+            ),
+        );
+        mockTransport.emit(
+            'message',
+            ComfoControlMessage.fromJson(
+                { opcode: Opcode.CN_RPDO_NOTIFICATION, id: 10 },
+                { pdid: 192, data: Buffer.from([0x5c, 0x00]) },
+            ),
+        );
+
+        await expect(status).resolves.toEqual({ daysLeft: 92 });
+    });
 });
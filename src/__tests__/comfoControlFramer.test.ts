@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { ComfoControlFramer } from '../comfoControlFramer';
+import { ComfoControlHeader } from '../comfoControlHeader';
+import { GatewayOperation, Opcode } from '../protocol/comfoConnect';
+
+function createFrame(id: number, message: Buffer = Buffer.from('20010801', 'hex')) {
+    const operation = GatewayOperation.toBinary({ opcode: Opcode.START_SESSION_CONFIRM, id });
+    const header = new ComfoControlHeader('0', '0', operation.length, message.length);
+    return Buffer.concat([header.toBinary(), operation, message]);
+}
+
+describe('ComfoControlFramer', () => {
+    it('should return a single complete frame', () => {
+        const framer = new ComfoControlFramer();
+        const frame = createFrame(1);
+        expect(framer.push(frame)).toEqual([frame]);
+        expect(framer.pendingBytes).toBe(0);
+    });
+
+    it('should split coalesced frames', () => {
+        const framer = new ComfoControlFramer();
+        const first = createFrame(1);
+        const second = createFrame(2, Buffer.alloc(0));
+        expect(framer.push(Buffer.concat([first, second]))).toEqual([first, second]);
+        expect(framer.pendingBytes).toBe(0);
+    });
+
+    it('should reassemble a frame split across chunks', () => {
+        const framer = new ComfoControlFramer();
+        const frame = createFrame(1);
+        expect(framer.push(frame.subarray(0, 2))).toEqual([]);
+        expect(framer.push(frame.subarray(2, 40))).toEqual([]);
+        expect(framer.pendingBytes).toBe(40);
+        expect(framer.push(frame.subarray(40))).toEqual([frame]);
+        expect(framer.pendingBytes).toBe(0);
+    });
+
+    it('should carry leftover bytes into the next chunk', () => {
+        const framer = new ComfoControlFramer();
+        const first = createFrame(1);
+        const second = createFrame(2);
+        const stream = Buffer.concat([first, second]);
+        expect(framer.push(stream.subarray(0, first.length + 10))).toEqual([first]);
+        expect(framer.pendingBytes).toBe(10);
+        expect(framer.push(stream.subarray(first.length + 10))).toEqual([second]);
+    });
+
+    it('should throw and clear the buffer on an invalid frame length', () => {
+        const framer = new ComfoControlFramer();
+        const frame = createFrame(1);
+        frame.writeUInt32BE(10, 0);
+        expect(() => framer.push(frame)).toThrow('Invalid frame length');
+        expect(framer.pendingBytes).toBe(0);
+    });
+
+    it('should discard buffered bytes on reset', () => {
+        const framer = new ComfoControlFramer();
+        framer.push(createFrame(1).subarray(0, 20));
+        framer.reset();
+        expect(framer.pendingBytes).toBe(0);
+    });
+});
@@ -5,6 +5,7 @@ import { Opcode, StartSessionConfirm, GatewayOperation } from '../protocol/comfo
 import { Socket } from 'node:net';
 import { ComfoControlHeader } from '../comfoControlHeader';
 import { ComfoControlMessage } from '../comfoControlMessage';
+import { ConnectionError } from '../errors';
 
 vi.mock('node:net', () => {
     const socketMock = new EventEmitter() as Socket;
@@ -53,7 +54,9 @@ describe('ComfoControlTransport', () => {
                 cb?.(new Error('mock connection error'));
             });
         });
-        await expect(transport.connect()).rejects.toThrow('mock connection error');
+        const err = await transport.connect().catch((e) => e);
+        expect(err).toBeInstanceOf(ConnectionError);
+        expect(err.message).toContain('mock connection error');
         expect(transport.isConnected).toBe(false);
     });
 
@@ -97,9 +100,34 @@ describe('ComfoControlTransport', () => {
         expect(result.resumed).toBe(false);
     });
 
+    it('should handle a message split across data chunks', async () => {
+        await transport.connect();
+        const received: ComfoControlMessage[] = [];
+        transport.on('message', (msg) => received.push(msg));
+
+        const message = StartSessionConfirm.toBinary({ deviceName: 'test', resumed: true });
+        const operation = GatewayOperation.toBinary({ opcode: Opcode.START_SESSION_CONFIRM, id: 1 });
+        const header = new ComfoControlHeader('0', '0', operation.length, message.length);
+        const frame = Buffer.concat([header.toBinary(), operation, message]);
+
+        // Second chunk completes the first message and holds the start of a second message
+        mockSocket.emit('data', frame.subarray(0, 30));
+        mockSocket.emit('data', Buffer.concat([frame.subarray(30), frame.subarray(0, 10)]));
+        expect(received).toHaveLength(1);
+        mockSocket.emit('data', frame.subarray(10));
+        expect(received).toHaveLength(2);
+
+        const result = received[1].deserialize<Opcode.START_SESSION_CONFIRM>();
+        expect(result.deviceName).toBe('test');
+        expect(result.resumed).toBe(true);
+    });
+
     it('should throw error on send if not connected', async () => {
         await expect(async () => transport.send(Opcode.START_SESSION_REQUEST, {})).rejects.toThrow(
             'Cannot send data on a disconnected socket',
         );
+        await expect(async () => transport.send(Opcode.START_SESSION_REQUEST, {})).rejects.toBeInstanceOf(
+            ConnectionError,
+        );
     });
 });
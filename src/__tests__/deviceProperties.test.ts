@@ -1,5 +1,20 @@
 import { describe, it, expect } from 'vitest';
-import { PropertyDataType, deserializePropertyValue } from '../deviceProperties';
+import {
+    BypassState,
+    ComfoAirProperties,
+    DeviceProperty,
+    FanMode,
+    OperatingModeState,
+    PropertyCategory,
+    PropertyDataType,
+    PropertyRequirement,
+    decodeBypassState,
+    deserializePropertyValue,
+    getProperty,
+    getPropertyName,
+    serializePropertyValue,
+    splitPropertyValues,
+} from '../deviceProperties';
 
 describe('PropertyDataTypeParsers', () => {
     it('CN_BOOL should parse 0/1 correctly', () => {
@@ -49,9 +64,17 @@ describe('PropertyDataTypeParsers', () => {
         expect(deserializePropertyValue({ propertyId: 0, dataType: PropertyDataType.CN_STRING }, buf)).toBe('Hello');
     });
 
-    it('CN_TIME should parse time as unsigned 32-bit correctly', () => {
+    it('CN_TIME should parse time as seconds since 2000-01-01 local time', () => {
         const buf = Buffer.from([0x78, 0x56, 0x34, 0x12]);
-        expect(deserializePropertyValue({ propertyId: 0, dataType: PropertyDataType.CN_TIME }, buf)).toBe(305419896);
+        expect(deserializePropertyValue({ propertyId: 0, dataType: PropertyDataType.CN_TIME }, buf)).toEqual(
+            new Date(2009, 8, 4, 22, 51, 36),
+        );
+    });
+
+    it('CN_TIME should serialize a date', () => {
+        expect(serializePropertyValue(PropertyDataType.CN_TIME, new Date(2009, 8, 4, 22, 51, 36))).toEqual(
+            Buffer.from([0x78, 0x56, 0x34, 0x12]),
+        );
     });
 
     it('CN_VERSION should parse version string', () => {
@@ -59,3 +82,133 @@ describe('PropertyDataTypeParsers', () => {
         expect(deserializePropertyValue({ propertyId: 0, dataType: PropertyDataType.CN_VERSION }, buf)).toBe('1.2.3');
     });
 });
+
+describe('splitPropertyValues', () => {
+    it('should split fixed-size and null-terminated values', () => {
+        const buf = Buffer.concat([
+            Buffer.from('SIT123\0', 'utf8'),
+            Buffer.from([0x34, 0x12]),
+            Buffer.from([0x01]),
+            Buffer.from('Q450', 'utf8'),
+        ]);
+        const values = splitPropertyValues(
+            [
+                PropertyDataType.CN_STRING,
+                PropertyDataType.CN_UINT16,
+                PropertyDataType.CN_BOOL,
+                PropertyDataType.CN_STRING,
+            ],
+            buf,
+        );
+        expect(values).toEqual([
+            Buffer.from('SIT123', 'utf8'),
+            Buffer.from([0x34, 0x12]),
+            Buffer.from([0x01]),
+            Buffer.from('Q450', 'utf8'),
+        ]);
+    });
+
+    it('should throw when the buffer is too short', () => {
+        expect(() => splitPropertyValues([PropertyDataType.CN_UINT32], Buffer.from([0x01, 0x02]))).toThrow(
+            'Cannot read CN_UINT32 at offset 0',
+        );
+    });
+});
+
+describe('decodeBypassState', () => {
+    it('should decode the bypass position', () => {
+        expect(decodeBypassState(0)).toBe(BypassState.Closed);
+        expect(decodeBypassState(35)).toBe(BypassState.PartiallyOpen);
+        expect(decodeBypassState(100)).toBe(BypassState.Open);
+    });
+});
+
+describe('enum mappings', () => {
+    it('should decode enumerated values into enum members', () => {
+        expect(deserializePropertyValue(ComfoAirProperties.OPERATING_MODE_49, Buffer.from([0xff]))).toBe(
+            OperatingModeState.Auto,
+        );
+        expect(deserializePropertyValue(ComfoAirProperties.OPERATING_MODE_56, Buffer.from([0x01]))).toBe(
+            OperatingModeState.UnlimitedManual,
+        );
+        expect(deserializePropertyValue(ComfoAirProperties.FAN_SPEED_SETTING, Buffer.from([0x02]))).toBe(
+            FanMode.Medium,
+        );
+    });
+
+    it('should pass through values that are not in the mapping', () => {
+        expect(deserializePropertyValue(ComfoAirProperties.OPERATING_MODE_56, Buffer.from([0x05]))).toBe(5);
+    });
+
+    it('should encode enum members into their raw values', () => {
+        expect(
+            serializePropertyValue(ComfoAirProperties.OPERATING_MODE_56, OperatingModeState.UnlimitedManual),
+        ).toEqual(Buffer.from([0x01]));
+        expect(
+            serializePropertyValue(ComfoAirProperties.OPERATING_MODE_49, OperatingModeState.UnlimitedManual),
+        ).toEqual(Buffer.from([0x05]));
+    });
+});
+
+describe('ComfoAirProperties', () => {
+    it('should have a unique property ID, a description and a category for every property', () => {
+        const properties = Object.values(ComfoAirProperties);
+        expect(new Set(properties.map((prop) => prop.propertyId)).size).toBe(properties.length);
+        for (const prop of properties) {
+            expect(prop.description).toBeTruthy();
+            expect(Object.values(PropertyCategory)).toContain(prop.category);
+        }
+    });
+
+    it('should describe the physical unit of measured values', () => {
+        const units: Array<[DeviceProperty, string]> = [
+            [ComfoAirProperties.SUPPLY_FAN_FLOW, 'm³/h'],
+            [ComfoAirProperties.SUPPLY_FAN_SPEED, 'rpm'],
+            [ComfoAirProperties.FAN_SPEED_MODULATED, '%'],
+            [ComfoAirProperties.CURRENT_VENTILATION_POWER_CONSUMPTION, 'W'],
+            [ComfoAirProperties.TOTAL_FROM_START_POWER_CONSUMPTION, 'kWh'],
+            [ComfoAirProperties.DAYS_LEFT_BEFORE_FILTER_REPLACEMENT, 'days'],
+            [ComfoAirProperties.COUNTDOWN_NEXT_FAN_SPEED_CHANGE, 's'],
+            [ComfoAirProperties.OUTDOOR_AIR_HUMIDITY, '%'],
+            [ComfoAirProperties.ANALOG_VOLTAGE_1, 'V'],
+            [ComfoAirProperties.COMFOCOOL_ROOM_TEMPERATURE, '°C'],
+            [ComfoAirProperties.COMFOCOOL_SUPPLY_TEMPERATURE, '°C'],
+        ];
+        for (const [prop, unit] of units) {
+            expect(prop.physicalUnit).toBe(unit);
+        }
+        for (const prop of Object.values(ComfoAirProperties).filter(
+            (prop) => prop.category === PropertyCategory.Temperature && prop.dataType === PropertyDataType.CN_INT16,
+        )) {
+            expect(prop.physicalUnit).toBe('°C');
+        }
+    });
+
+    it('should list the optional device a property requires', () => {
+        const requirements: Partial<Record<PropertyCategory, PropertyRequirement>> = {
+            [PropertyCategory.Preheater]: PropertyRequirement.Preheater,
+            [PropertyCategory.PostHeater]: PropertyRequirement.PostHeater,
+            [PropertyCategory.ComfoCool]: PropertyRequirement.ComfoCool,
+        };
+        for (const prop of Object.values(ComfoAirProperties) as DeviceProperty[]) {
+            if (prop.category && requirements[prop.category]) {
+                expect(prop.requires).toBe(requirements[prop.category]);
+            }
+        }
+        expect(ComfoAirProperties.PREHEATED_OUTDOOR_AIR_TEMPERATURE.requires).toBe(PropertyRequirement.Preheater);
+        expect(ComfoAirProperties.PREHEATED_OUTDOOR_AIR_HUMIDITY.requires).toBe(PropertyRequirement.Preheater);
+        expect(ComfoAirProperties.POST_HEATER_TEMP_BEFORE.requires).toBe(PropertyRequirement.PostHeater);
+        expect((ComfoAirProperties.OUTDOOR_AIR_TEMPERATURE as DeviceProperty).requires).toBeUndefined();
+    });
+
+    it('should look up properties by their property ID', () => {
+        expect(getProperty(802)).toBe(ComfoAirProperties.COMFOCOOL_CONDENSOR_TEMPERATURE);
+        expect(getPropertyName(802)).toBe('COMFOCOOL_CONDENSOR_TEMPERATURE');
+        expect(getProperty(802)).toMatchObject({
+            physicalUnit: '°C',
+            category: PropertyCategory.ComfoCool,
+            requires: PropertyRequirement.ComfoCool,
+        });
+        expect(getProperty(1)).toBeUndefined();
+    });
+});
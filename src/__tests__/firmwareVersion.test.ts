@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import {
+    VersionStage,
+    compareFirmwareVersions,
+    decodeFirmwareVersion,
+    formatFirmwareVersion,
+} from '../firmwareVersion';
+
+describe('FirmwareVersion', () => {
+    it('should decode a packed version number', () => {
+        expect(decodeFirmwareVersion(0xc0100c03)).toEqual({ stage: VersionStage.R, major: 1, minor: 3, patch: 3 });
+        expect(decodeFirmwareVersion(0x40401c05)).toEqual({ stage: VersionStage.D, major: 4, minor: 7, patch: 5 });
+    });
+
+    it('should format a version', () => {
+        expect(formatFirmwareVersion(decodeFirmwareVersion(0xc0100c03))).toBe('R1.3.3');
+    });
+
+    it('should compare versions', () => {
+        const v1 = { major: 1, minor: 3, patch: 3 };
+        expect(compareFirmwareVersions(v1, { major: 1, minor: 3, patch: 3 })).toBe(0);
+        expect(compareFirmwareVersions(v1, { major: 1, minor: 4, patch: 0 })).toBeLessThan(0);
+        expect(compareFirmwareVersions(v1, { major: 0, minor: 9, patch: 9 })).toBeGreaterThan(0);
+    });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+    DisableScheduleEntryMessage,
+    EnableScheduleEntryMessage,
+    GetPropertiesMessage,
+    GetPropertyMessage,
+    GetPropertyRangeMessage,
+    GetScheduleEntryMessage,
+    ResetErrorsMessage,
+    SCHEDULE_DURATION_INDEFINITE,
+    SetPropertyMessage,
+} from '../rmiMessage';
+import { InvalidArgumentError } from '../errors';
+import { NodeTypes, VentilationUnitProperties } from '../rmiProperties';
+
+describe('RmiMessage', () => {
+    it('should encode a single property read', () => {
+        const message = new GetPropertyMessage(VentilationUnitProperties.NODE.SERIAL_NUMBER);
+        expect(message.encode()).toEqual(Buffer.from([0x01, 0x01, 0x01, 0x10, 0x04]));
+        expect(message.target).toEqual({ node: 1, unit: 0x01, subunit: 1, propertyId: 0x04 });
+        expect(message.decode(Buffer.from('SIT123', 'utf8'))).toBe('SIT123');
+    });
+
+    it('should encode a multi property read and split the response', () => {
+        const message = new GetPropertiesMessage([
+            VentilationUnitProperties.NODE.SERIAL_NUMBER,
+            VentilationUnitProperties.NODE.FIRMWARE_VERSION,
+        ]);
+        expect(message.encode()).toEqual(Buffer.from([0x02, 0x01, 0x01, 0x01, 0x12, 0x04, 0x06]));
+        expect(message.decode(Buffer.from([0x41, 0x00, 0x01, 0x02, 0x03, 0x04]))).toEqual([
+            Buffer.from([0x41]),
+            Buffer.from([0x01, 0x02, 0x03, 0x04]),
+        ]);
+    });
+
+    it('should reject multi property reads across subunits', () => {
+        expect(
+            () =>
+                new GetPropertiesMessage([
+                    VentilationUnitProperties.NODE.SERIAL_NUMBER,
+                    VentilationUnitProperties.TEMPHUMCONTROL.TARGET_TEMPERATURE_HEATING,
+                ]),
+        ).toThrow('Properties must be from the same node, unit and subunit');
+        expect(() => new GetPropertiesMessage([])).toThrow(InvalidArgumentError);
+    });
+
+    it('should encode a property write', () => {
+        const message = new SetPropertyMessage(VentilationUnitProperties.TEMPHUMCONTROL.TARGET_TEMPERATURE_HEATING, 21);
+        expect(message.encode()).toEqual(Buffer.from([0x03, 0x1d, 0x01, 0x0a, 0xd2, 0x00]));
+    });
+
+    it('should decode a property range', () => {
+        const message = new GetPropertyRangeMessage(
+            VentilationUnitProperties.TEMPHUMCONTROL.TARGET_TEMPERATURE_HEATING,
+        );
+        expect(message.encode()).toEqual(Buffer.from([0x01, 0x1d, 0x01, 0x60, 0x0a]));
+        expect(message.decode(Buffer.from([0xc8, 0x00, 0x2c, 0x01, 0x05, 0x00]))).toEqual({
+            min: 20,
+            max: 30,
+            step: 0.5,
+        });
+    });
+
+    it('should encode schedule entries', () => {
+        expect(
+            new EnableScheduleEntryMessage(3, 1, { duration: SCHEDULE_DURATION_INDEFINITE, value: 2 }).encode(),
+        ).toEqual(Buffer.from([0x84, 0x15, 0x03, 0x01, 0, 0, 0, 0, 0xff, 0xff, 0xff, 0xff, 0x02]));
+        expect(new EnableScheduleEntryMessage(1, 6, { duration: 3600, value: 3 }).encode()).toEqual(
+            Buffer.from([0x84, 0x15, 0x01, 0x06, 0, 0, 0, 0, 0x10, 0x0e, 0, 0, 0x03]),
+        );
+        expect(new DisableScheduleEntryMessage(1, 6).encode()).toEqual(Buffer.from([0x85, 0x15, 0x01, 0x06]));
+    });
+
+    it('should target another node', () => {
+        const message = new GetScheduleEntryMessage(1, 1, NodeTypes.OPTION_BOX);
+        expect(message.target.node).toBe(NodeTypes.OPTION_BOX);
+        expect(message.encode()).toEqual(Buffer.from([0x83, 0x15, 0x01, 0x01]));
+        expect(message.decode(Buffer.from([0x00, 0x02]))).toEqual({
+            active: false,
+            value: 2,
+            raw: Buffer.from([0x00, 0x02]),
+        });
+        const active = Buffer.from('0100000000ffffffffffffffff01', 'hex');
+        expect(message.decode(active)).toEqual({ active: true, value: 1, raw: active });
+    });
+
+    it('should encode an error reset', () => {
+        expect(new ResetErrorsMessage().encode()).toEqual(Buffer.from([0x82, 0x03, 0x01]));
+    });
+});
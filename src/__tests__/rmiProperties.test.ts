@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { PropertyDataType } from '../deviceProperties';
+import {
+    NodeProperty,
+    NodeTypes,
+    Orientation,
+    UnitSubunitCounts,
+    UnitTypes,
+    VentilationUnitProperties,
+    decodeNodePropertyValue,
+    encodeNodePropertyValue,
+    forSubunit,
+    scaleBy,
+} from '../rmiProperties';
+import { InvalidArgumentError } from '../errors';
+
+describe('VentilationUnitProperties', () => {
+    it('should only contain properties of the unit they are listed under', () => {
+        for (const [unit, properties] of Object.entries(VentilationUnitProperties)) {
+            for (const prop of Object.values(properties) as NodeProperty[]) {
+                expect(prop.unit).toBe(UnitTypes[unit as keyof typeof UnitTypes]);
+            }
+        }
+    });
+
+    it('should have a subunit count for every unit', () => {
+        for (const unit of Object.values(UnitTypes).filter((unit) => typeof unit === 'number')) {
+            expect(UnitSubunitCounts[unit]).toBeGreaterThanOrEqual(1);
+        }
+    });
+});
+
+describe('forSubunit', () => {
+    const temperature: NodeProperty = {
+        node: NodeTypes.VENTILATION_UNIT,
+        unit: UnitTypes.TEMPERATURESENSOR,
+        propertyId: 0x01,
+        dataType: PropertyDataType.CN_INT16,
+    };
+
+    it('should target another subunit of the same unit', () => {
+        expect(forSubunit(temperature, 6)).toEqual({ ...temperature, subunit: 6 });
+    });
+
+    it('should reject subunits the unit does not have', () => {
+        const fanSpeed: NodeProperty = { ...temperature, unit: UnitTypes.FAN };
+        expect(() => forSubunit(fanSpeed, 3)).toThrow('Invalid subunit 3 for unit FAN');
+        expect(() => forSubunit(VentilationUnitProperties.NODE.SERIAL_NUMBER, 0)).toThrow(InvalidArgumentError);
+    });
+});
+
+describe('property scaling', () => {
+    it('should scale values in both directions', () => {
+        const prop = VentilationUnitProperties.TEMPHUMCONTROL.TARGET_TEMPERATURE_HEATING;
+        expect(decodeNodePropertyValue(prop, Buffer.from([0xd7, 0x00]))).toBe(21.5);
+        expect(encodeNodePropertyValue(prop, 21.5)).toEqual(Buffer.from([0xd7, 0x00]));
+        expect(prop.physicalUnit).toBe('°C');
+    });
+
+    it('should scale the ventilation configuration to its physical unit', () => {
+        const {
+            UNBALANCE,
+            HEIGHT_ABOVE_SEA_LEVEL,
+            BATHROOM_SWITCH_ACTIVATION_DELAY,
+            BATHROOM_SWITCH_DEACTIVATION_DELAY,
+        } = VentilationUnitProperties.VENTILATIONCONFIG;
+        expect(decodeNodePropertyValue(UNBALANCE, Buffer.from([0xe7, 0xff]))).toBe(-2.5);
+        expect(encodeNodePropertyValue(UNBALANCE, 1.5)).toEqual(Buffer.from([0x0f, 0x00]));
+        expect(UNBALANCE.physicalUnit).toBe('%');
+        expect(HEIGHT_ABOVE_SEA_LEVEL.physicalUnit).toBe('m');
+        expect(BATHROOM_SWITCH_ACTIVATION_DELAY.physicalUnit).toBe('s');
+        expect(BATHROOM_SWITCH_DEACTIVATION_DELAY.physicalUnit).toBe('min');
+        expect(decodeNodePropertyValue(BATHROOM_SWITCH_DEACTIVATION_DELAY, Buffer.from([0x1e]))).toBe(30);
+    });
+
+    it('should round scaled values to the nearest raw value', () => {
+        expect(scaleBy(10).encode(21.349)).toBe(213);
+        expect(scaleBy(10).encode(-0.1)).toBe(-1);
+    });
+
+    it('should leave properties without scaling untouched', () => {
+        const prop = VentilationUnitProperties.VENTILATIONCONFIG.VENTILATION_SPEED_LOW;
+        expect(decodeNodePropertyValue(prop, Buffer.from([0x64, 0x00]))).toBe(100);
+        expect(encodeNodePropertyValue(prop, 100)).toEqual(Buffer.from([0x64, 0x00]));
+        expect(decodeNodePropertyValue(VentilationUnitProperties.NODE.SERIAL_NUMBER, Buffer.from('SIT123'))).toBe(
+            'SIT123',
+        );
+    });
+});
+
+describe('enumerated properties', () => {
+    it('should read and write enumerated RMI properties as enum members', () => {
+        const prop = VentilationUnitProperties.NODECONFIGURATION.ORIENTATION;
+        expect(decodeNodePropertyValue(prop, Buffer.from([0x01]))).toBe(Orientation.Right);
+        expect(encodeNodePropertyValue(prop, Orientation.Left)).toEqual(Buffer.from([0x00]));
+    });
+});
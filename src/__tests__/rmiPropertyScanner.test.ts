@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RmiPropertyScanner, RmiScannerClient, guessPropertyDataType } from '../rmiPropertyScanner';
+import { PropertyDataType } from '../deviceProperties';
+import { ErrorCodes, UnitTypes } from '../rmiProperties';
+import { RmiError } from '../errors';
+import { RmiMessage } from '../rmiMessage';
+
+describe('guessPropertyDataType', () => {
+    it('should guess strings from printable text', () => {
+        expect(guessPropertyDataType(Buffer.from('SIT1234567\0', 'utf8'))).toBe(PropertyDataType.CN_STRING);
+        expect(guessPropertyDataType(Buffer.from('NL\0', 'utf8'))).toBe(PropertyDataType.CN_STRING);
+    });
+
+    it('should guess integers by their length', () => {
+        expect(guessPropertyDataType(Buffer.from([0x01]))).toBe(PropertyDataType.CN_UINT8);
+        expect(guessPropertyDataType(Buffer.from([0xd2, 0x00]))).toBe(PropertyDataType.CN_UINT16);
+        expect(guessPropertyDataType(Buffer.from([0x03, 0x0c, 0x10, 0xc0]))).toBe(PropertyDataType.CN_UINT32);
+        expect(guessPropertyDataType(Buffer.from([0x01, 0x02, 0x03]))).toBeUndefined();
+    });
+});
+
+describe('RmiPropertyScanner', () => {
+    const values: Record<string, Buffer> = {
+        '1:1:4': Buffer.from('SIT123\0', 'utf8'),
+        '1:1:5': Buffer.from([0x02]),
+        '29:1:2': Buffer.from([0xd2, 0x00]),
+    };
+    const createClient = () => {
+        const client: RmiScannerClient = {
+            readPropertyRawValue: async (prop) => {
+                if (prop.unit === UnitTypes.ERROR) {
+                    throw new RmiError(ErrorCodes.UNKNOWN_UNIT, prop);
+                }
+                if ((prop.subunit ?? 1) > 1) {
+                    throw new RmiError(ErrorCodes.UNKNOWN_SUBUNIT, prop);
+                }
+                if (prop.unit === UnitTypes.TEMPHUMCONTROL && prop.propertyId === 3) {
+                    throw new RmiError(ErrorCodes.PROPERTY_NOT_GETTABLE_OR_SETTABLE, prop);
+                }
+                const value = values[[prop.unit, prop.subunit, prop.propertyId].join(':')];
+                if (!value) {
+                    throw new RmiError(ErrorCodes.UNKNOWN_PROPERTY, prop);
+                }
+                return value;
+            },
+            executeRmi: async <T>(message: RmiMessage<T>): Promise<T> => {
+                if (message.unit === UnitTypes.NODE) {
+                    throw new RmiError(ErrorCodes.PROPERTY_NOT_GETTABLE_OR_SETTABLE, message.target);
+                }
+                return message.decode(Buffer.alloc(0));
+            },
+        };
+        return {
+            client,
+            readPropertyRawValue: vi.spyOn(client, 'readPropertyRawValue'),
+            executeRmi: vi.spyOn(client, 'executeRmi'),
+        };
+    };
+
+    it('should record the properties that answer', async () => {
+        const { client, readPropertyRawValue, executeRmi } = createClient();
+        const scanner = new RmiPropertyScanner(client);
+        const listener = vi.fn();
+        scanner.on('property', listener);
+
+        const results = await scanner.scan({
+            units: [UnitTypes.NODE, UnitTypes.ERROR, UnitTypes.TEMPHUMCONTROL],
+            propertyIds: [2, 3, 4, 5],
+        });
+
+        expect(results).toEqual([
+            {
+                node: 1,
+                unit: UnitTypes.NODE,
+                unitName: 'NODE',
+                subunit: 1,
+                propertyId: 4,
+                name: 'SERIAL_NUMBER',
+                readable: true,
+                raw: '53495431323300',
+                guessedDataType: 'CN_STRING',
+                settable: undefined,
+            },
+            expect.objectContaining({
+                unit: UnitTypes.NODE,
+                propertyId: 5,
+                name: undefined,
+                guessedDataType: 'CN_UINT8',
+            }),
+            expect.objectContaining({ unit: UnitTypes.TEMPHUMCONTROL, propertyId: 2, raw: 'd200' }),
+            expect.objectContaining({ unit: UnitTypes.TEMPHUMCONTROL, propertyId: 3, readable: false }),
+        ]);
+        expect(listener).toHaveBeenCalledTimes(4);
+        // The ERROR unit is skipped after the first request and subunit 2 ends the scan of each unit
+        expect(readPropertyRawValue).toHaveBeenCalledTimes(4 + 1 + 1 + 4 + 1);
+        expect(executeRmi).not.toHaveBeenCalled();
+    });
+
+    it('should probe if properties are settable', async () => {
+        const { client, executeRmi } = createClient();
+        const results = await new RmiPropertyScanner(client).scan({
+            units: [UnitTypes.NODE, UnitTypes.TEMPHUMCONTROL],
+            propertyIds: [4, 2],
+            probeSettable: true,
+        });
+
+        expect(results.map((r) => r.settable)).toEqual([false, true]);
+        expect(executeRmi.mock.calls[1][0].encode()).toEqual(Buffer.from([0x03, 0x1d, 0x01, 0x02, 0xd2, 0x00]));
+    });
+
+    it('should export the results as JSON', async () => {
+        const results = await new RmiPropertyScanner(createClient().client).scan({
+            units: [UnitTypes.NODE],
+            propertyIds: [5],
+        });
+
+        expect(JSON.parse(RmiPropertyScanner.toJson(results))).toEqual([
+            {
+                node: 1,
+                unit: 1,
+                unitName: 'NODE',
+                subunit: 1,
+                propertyId: 5,
+                readable: true,
+                raw: '02',
+                guessedDataType: 'CN_UINT8',
+            },
+        ]);
+    });
+});
@@ -0,0 +1,268 @@
+/**
+ * Severity of an alarm reported by the ventilation unit.
+ */
+export enum AlarmSeverity {
+    /** Informational message, no action required. */
+    Info = 0,
+    /** Maintenance is required, for example replacing the filters. */
+    Warning = 1,
+    /** A component has a malfunction; the unit keeps running with reduced functionality. */
+    Error = 2,
+    /** The unit stopped ventilating to protect itself or the building. */
+    Critical = 3,
+}
+
+export interface AlarmDefinition {
+    readonly name: string;
+    readonly description: string;
+    readonly severity: AlarmSeverity;
+}
+
+export interface Alarm extends AlarmDefinition {
+    /**
+     * The error code of the alarm; also the bit index of the alarm in the error bitmap.
+     */
+    readonly id: number;
+}
+
+/**
+ * Known ComfoAirQ error codes, keyed by error code.
+ * The error code is the bit index of the error in the error bitmap of a CN_ALARM_NOTIFICATION.
+ */
+export const ComfoAirAlarms: Readonly<Record<number, AlarmDefinition>> = {
+    21: {
+        name: 'OVERHEATING',
+        description: 'Two or more sensors are detecting an incorrect temperature; ventilation has stopped',
+        severity: AlarmSeverity.Critical,
+    },
+    22: {
+        name: 'TEMP_HRU',
+        description: 'Temperature too high for the ComfoAir Q',
+        severity: AlarmSeverity.Critical,
+    },
+    23: {
+        name: 'SENSOR_ETA',
+        description: 'The extract air temperature sensor has a malfunction',
+        severity: AlarmSeverity.Error,
+    },
+    24: {
+        name: 'TEMP_SENSOR_ETA',
+        description: 'The extract air temperature sensor is detecting an incorrect temperature',
+        severity: AlarmSeverity.Warning,
+    },
+    25: {
+        name: 'SENSOR_EHA',
+        description: 'The exhaust air temperature sensor has a malfunction',
+        severity: AlarmSeverity.Error,
+    },
+    26: {
+        name: 'TEMP_SENSOR_EHA',
+        description: 'The exhaust air temperature sensor is detecting an incorrect temperature',
+        severity: AlarmSeverity.Warning,
+    },
+    27: {
+        name: 'SENSOR_ODA',
+        description: 'The outdoor air temperature sensor has a malfunction',
+        severity: AlarmSeverity.Error,
+    },
+    28: {
+        name: 'TEMP_SENSOR_ODA',
+        description: 'The outdoor air temperature sensor is detecting an incorrect temperature',
+        severity: AlarmSeverity.Warning,
+    },
+    29: {
+        name: 'SENSOR_P_ODA',
+        description: 'The pre-conditioned outdoor air temperature sensor has a malfunction',
+        severity: AlarmSeverity.Error,
+    },
+    30: {
+        name: 'TEMP_SENSOR_P_ODA',
+        description: 'The pre-conditioned outdoor air temperature sensor is detecting an incorrect temperature',
+        severity: AlarmSeverity.Warning,
+    },
+    31: {
+        name: 'SENSOR_SUP',
+        description: 'The supply air temperature sensor has a malfunction',
+        severity: AlarmSeverity.Error,
+    },
+    32: {
+        name: 'TEMP_SENSOR_SUP',
+        description: 'The supply air temperature sensor is detecting an incorrect temperature',
+        severity: AlarmSeverity.Warning,
+    },
+    33: {
+        name: 'INIT',
+        description: 'The ComfoAir Q cannot reach the required supply air temperature',
+        severity: AlarmSeverity.Warning,
+    },
+    34: {
+        name: 'FAN_EXT',
+        description: 'The extract air fan has a malfunction',
+        severity: AlarmSeverity.Critical,
+    },
+    35: {
+        name: 'FAN_SUP',
+        description: 'The supply air fan has a malfunction',
+        severity: AlarmSeverity.Critical,
+    },
+    37: {
+        name: 'SENSOR_PRESSURE_EXT',
+        description: 'The extract air pressure sensor has a malfunction',
+        severity: AlarmSeverity.Error,
+    },
+    38: {
+        name: 'SENSOR_PRESSURE_SUP',
+        description: 'The supply air pressure sensor has a malfunction',
+        severity: AlarmSeverity.Error,
+    },
+    39: {
+        name: 'SENSOR_HUMIDITY_ETA',
+        description: 'The extract air humidity sensor has a malfunction',
+        severity: AlarmSeverity.Error,
+    },
+    40: {
+        name: 'SENSOR_HUMIDITY_EHA',
+        description: 'The exhaust air humidity sensor has a malfunction',
+        severity: AlarmSeverity.Error,
+    },
+    41: {
+        name: 'SENSOR_HUMIDITY_ODA',
+        description: 'The outdoor air humidity sensor has a malfunction',
+        severity: AlarmSeverity.Error,
+    },
+    42: {
+        name: 'SENSOR_HUMIDITY_P_ODA',
+        description: 'The pre-conditioned outdoor air humidity sensor has a malfunction',
+        severity: AlarmSeverity.Error,
+    },
+    43: {
+        name: 'SENSOR_HUMIDITY_SUP',
+        description: 'The supply air humidity sensor has a malfunction',
+        severity: AlarmSeverity.Error,
+    },
+    44: {
+        name: 'FLOW_EXT',
+        description: 'The extract air flow is lower than the required flow',
+        severity: AlarmSeverity.Warning,
+    },
+    45: {
+        name: 'FLOW_SUP',
+        description: 'The supply air flow is lower than the required flow',
+        severity: AlarmSeverity.Warning,
+    },
+    46: {
+        name: 'PREHEATER_TEMP',
+        description: 'The temperature after the pre-heater is too high',
+        severity: AlarmSeverity.Error,
+    },
+    47: {
+        name: 'PREHEATER_LOCATION',
+        description: 'The pre-heater is not in the correct position',
+        severity: AlarmSeverity.Error,
+    },
+    48: {
+        name: 'PREHEATER_COMMUNICATION',
+        description: 'The pre-heater does not respond',
+        severity: AlarmSeverity.Error,
+    },
+    49: {
+        name: 'POSTHEATER_TEMP',
+        description: 'The temperature after the post-heater is too high',
+        severity: AlarmSeverity.Error,
+    },
+    50: {
+        name: 'POSTHEATER_COMMUNICATION',
+        description: 'The post-heater does not respond',
+        severity: AlarmSeverity.Error,
+    },
+    51: {
+        name: 'BYPASS',
+        description: 'The bypass has a malfunction',
+        severity: AlarmSeverity.Error,
+    },
+    52: {
+        name: 'FROST_PROTECTION',
+        description: 'The frost protection cannot protect the heat exchanger; ventilation is reduced',
+        severity: AlarmSeverity.Warning,
+    },
+    53: {
+        name: 'FROST_PROTECTION_STOPPED',
+        description: 'The frost protection stopped the unit to protect the heat exchanger',
+        severity: AlarmSeverity.Critical,
+    },
+    55: {
+        name: 'COMFOCOOL_COMMUNICATION',
+        description: 'The ComfoCool does not respond',
+        severity: AlarmSeverity.Error,
+    },
+    56: {
+        name: 'COMFOCOOL',
+        description: 'The ComfoCool has a malfunction',
+        severity: AlarmSeverity.Error,
+    },
+    57: {
+        name: 'OPTIONBOX_COMMUNICATION',
+        description: 'The option box does not respond',
+        severity: AlarmSeverity.Error,
+    },
+    58: {
+        name: 'EXTERNAL_FIRE',
+        description: 'The external fire alarm input is active; ventilation has stopped',
+        severity: AlarmSeverity.Critical,
+    },
+    70: {
+        name: 'FILTER_REPLACE',
+        description: 'The filters must be replaced',
+        severity: AlarmSeverity.Warning,
+    },
+    71: {
+        name: 'FILTER_REPLACE_SOON',
+        description: 'The filters must be replaced soon',
+        severity: AlarmSeverity.Info,
+    },
+    72: {
+        name: 'FILTER_ORDER',
+        description: 'New filters should be ordered',
+        severity: AlarmSeverity.Info,
+    },
+    77: {
+        name: 'MAINTENANCE',
+        description: 'Maintenance of the unit is required',
+        severity: AlarmSeverity.Warning,
+    },
+};
+
+/**
+ * Get the alarm definition for an error code.
+ * Error codes that are not in the {@link ComfoAirAlarms} catalog are returned as `UNKNOWN_<id>` with {@link AlarmSeverity.Warning}.
+ * @param id The error code of the alarm.
+ * @returns The alarm.
+ */
+export function getAlarm(id: number): Alarm {
+    return {
+        id,
+        ...(ComfoAirAlarms[id] ?? {
+            name: `UNKNOWN_${id}`,
+            description: `Unknown error ${id}`,
+            severity: AlarmSeverity.Warning,
+        }),
+    };
+}
+
+/**
+ * Decodes the error bitmap of a CN_ALARM_NOTIFICATION into a list of active alarms.
+ * Each bit in the bitmap represents an error code: bit `n % 8` of byte `n / 8` is set when error `n` is active.
+ * @param errors The error bitmap.
+ * @returns The active alarms ordered by error code.
+ */
+export function decodeAlarms(errors: Uint8Array): Alarm[] {
+    const alarms: Alarm[] = [];
+    for (let byte = 0; byte < errors.length; byte++) {
+        for (let bit = 0; bit < 8; bit++) {
+            if (errors[byte] & (1 << bit)) {
+                alarms.push(getAlarm(byte * 8 + bit));
+            }
+        }
+    }
+    return alarms;
+}
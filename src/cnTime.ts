@@ -0,0 +1,51 @@
+import { InvalidArgumentError } from './errors';
+
+/**
+ * The CN_TIME epoch: 2000-01-01T00:00:00 as UTC timestamp. The ventilation unit counts seconds since this moment in
+ * its own local wall-clock time, so the timestamp is only used to do calendar arithmetic and is never interpreted as UTC.
+ */
+const CN_TIME_EPOCH = Date.UTC(2000, 0, 1);
+
+/**
+ * Decodes a CN_TIME value into a Date.
+ *
+ * CN_TIME values are the number of seconds since 2000-01-01T00:00:00 in the local wall-clock time of the ventilation unit.
+ * The wall-clock time is mapped onto the local timezone of this host, which is expected to match the timezone of the unit.
+ *
+ * @param seconds The number of seconds since the CN_TIME epoch.
+ * @returns The decoded date.
+ */
+export function decodeCnTime(seconds: number): Date {
+    const wallClock = new Date(CN_TIME_EPOCH + seconds * 1000);
+    return new Date(
+        wallClock.getUTCFullYear(),
+        wallClock.getUTCMonth(),
+        wallClock.getUTCDate(),
+        wallClock.getUTCHours(),
+        wallClock.getUTCMinutes(),
+        wallClock.getUTCSeconds(),
+    );
+}
+
+/**
+ * Encodes a Date as CN_TIME value using the local wall-clock time of this host, see {@link decodeCnTime}.
+ * @param date The date to encode.
+ * @returns The number of seconds since the CN_TIME epoch.
+ * @throws {InvalidArgumentError} If the date is before the CN_TIME epoch.
+ */
+export function encodeCnTime(date: Date): number {
+    const wallClock = Date.UTC(
+        date.getFullYear(),
+        date.getMonth(),
+        date.getDate(),
+        date.getHours(),
+        date.getMinutes(),
+        date.getSeconds(),
+    );
+    if (wallClock < CN_TIME_EPOCH) {
+        throw new InvalidArgumentError(
+            `Cannot encode ${date.toISOString()} as CN_TIME; dates before 2000-01-01 are not supported`,
+        );
+    }
+    return Math.floor((wallClock - CN_TIME_EPOCH) / 1000);
+}
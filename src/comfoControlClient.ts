@@ -1,22 +1,59 @@
+import { EventEmitter } from 'node:events';
 import { DiscoveryOperation } from './discoveryOperation';
 import { NetworkUtils } from './util/networkUtils';
 import { Logger, LogLevel } from './util/logging/index';
-import { Opcode, Result } from './protocol/comfoConnect';
+import { CnAlarmNotification, Opcode, Result } from './protocol/comfoConnect';
 import { DeferredPromise } from './util/deferredPromise';
 import { OpcodeMessageType, requestMessages } from './opcodes';
 import { ComfoControlMessage } from './comfoControlMessage';
 import { ComfoControlTransport } from './comfoControlTransport';
-import { NodeProductType } from './consts';
+import { NodeModeType, NodeProductType } from './consts';
+import { FirmwareVersion, decodeFirmwareVersion } from './firmwareVersion';
+import { decodeCnTime, encodeCnTime } from './cnTime';
+import { Alarm, decodeAlarms, getAlarm } from './alarms';
 import {
+    BypassActivationMode,
+    BypassState,
+    ComfoAirProperties,
     DeviceProperty,
+    FanMode,
+    PropertyDataType,
     PropertyNativeType,
+    TemperatureProfile,
     getPropertyName,
+    decodeBypassState,
     deserializePropertyValue,
-    serializePropertyValue,
 } from './deviceProperties';
+import {
+    DisableScheduleEntryMessage,
+    EnableScheduleEntryMessage,
+    GetPropertiesMessage,
+    GetPropertyMessage,
+    GetPropertyRangeMessage,
+    GetScheduleEntryMessage,
+    PropertyRange,
+    ResetErrorsMessage,
+    RmiMessage,
+    SCHEDULE_DURATION_INDEFINITE,
+    ScheduleEntryType,
+    ScheduleSubunit,
+    SetPropertyMessage,
+} from './rmiMessage';
 import { removeArrayElement } from './util/arrayUtils';
-import { timeout } from './util/asyncUtils';
-import { ErrorCodes, NodeProperty } from './rmiProperties';
+import { timeout, wait } from './util/asyncUtils';
+import { ErrorCodes, NodeProperty, NodeTypes, UnitTypes, decodeNodePropertyValue } from './rmiProperties';
+import {
+    ComfoControlError,
+    ConnectionError,
+    ConnectionLostError,
+    GatewayResultError,
+    InvalidArgumentError,
+    InvalidPinError,
+    RequestTimeoutError,
+    RmiError,
+    RmiTarget,
+    SessionError,
+} from './errors';
 
 export interface ComfoControlLogger {
     log(message: string, ...args: unknown[]): void;
@@ -72,9 +109,215 @@ export interface ComfoControlClientOptions extends LoggingOptions {
      * If the device does not respond within this time, the request will be considered failed and the {@link send} method will reject the promise.
      */
     requestTimeout?: number;
+    /**
+     * Automatically reconnect and restore the session when the connection with the gateway is lost.
+     * Pass `true` to use the default reconnect policy or an object to customize it. Disabled by default.
+     */
+    reconnect?: boolean | ReconnectOptions;
 }
 
-interface ComfoControlNode {
+export interface ReconnectOptions {
+    /**
+     * Delay in milliseconds before the first reconnect attempt. Defaults to 1000ms.
+     */
+    initialDelay?: number;
+    /**
+     * Maximum delay in milliseconds between two reconnect attempts. Defaults to 60000ms.
+     */
+    maxDelay?: number;
+    /**
+     * Factor by which the delay is multiplied after each failed attempt. Defaults to 2.
+     */
+    multiplier?: number;
+    /**
+     * Random jitter applied to each delay as a fraction of the delay, between 0 and 1. Defaults to 0.2.
+     */
+    jitter?: number;
+    /**
+     * Maximum number of reconnect attempts before giving up. Defaults to unlimited attempts.
+     */
+    maxAttempts?: number;
+    /**
+     * Re-send idempotent read requests that were pending when the connection was lost once the connection is restored,
+     * instead of rejecting them with a {@link ConnectionLostError}. Replayed requests still have to complete within the
+     * request timeout. Defaults to false.
+     */
+    replayReads?: boolean;
+}
+
+export interface GatewayInfo {
+    /**
+     * The firmware version of the ComfoConnect gateway.
+     */
+    gatewayVersion: FirmwareVersion;
+    /**
+     * The serial number of the ComfoConnect gateway.
+     */
+    serialNumber: string;
+    /**
+     * The version of the ComfoNet protocol supported by the gateway.
+     */
+    comfoNetVersion: FirmwareVersion;
+}
+
+export interface ClockSyncResult {
+    /**
+     * The difference in milliseconds between the clock of the ventilation unit and the clock of this host
+     * before synchronizing; positive when the unit is ahead.
+     */
+    drift: number;
+    /**
+     * True when the drift exceeded the threshold and the clock of the ventilation unit was set.
+     */
+    corrected: boolean;
+}
+
+export interface RegisteredApp {
+    /**
+     * UUID of the registered app encoded as HEX string.
+     */
+    uuid: string;
+    /**
+     * The device name the app registered with.
+     */
+    deviceName: string;
+}
+
+export interface AlarmNotification {
+    /**
+     * The ID of the node that reported the alarms.
+     */
+    nodeId: number;
+    /**
+     * The product type of the node that reported the alarms.
+     */
+    productType: NodeProductType;
+    /**
+     * The product variant of the node that reported the alarms.
+     */
+    productVariant: number;
+    /**
+     * The serial number of the node that reported the alarms.
+     */
+    serialNumber: string;
+    /**
+     * The firmware version of the node that reported the alarms.
+     */
+    firmwareVersion: FirmwareVersion;
+    /**
+     * The error that caused the notification.
+     */
+    error: Alarm;
+    /**
+     * All alarms that are active on the node.
+     */
+    alarms: Alarm[];
+}
+
+export interface GatewayNotificationEvent {
+    /**
+     * The push UUIDs encoded as HEX strings of the apps the gateway would send a push notification to.
+     */
+    pushUuids: string[];
+    /**
+     * The alarm that triggered the push notification, if the notification is about an alarm.
+     */
+    alarm?: AlarmNotification;
+}
+
+export interface RmiAsyncOperation {
+    /**
+     * The reference ID of the CN_RMI_ASYNC_REQUEST; the gateway sends the async response with the same ID.
+     */
+    id: number;
+    /**
+     * Resolves to the payload of the CN_RMI_ASYNC_RESPONSE once the node completed the request.
+     * Rejects with an {@link RmiError} when the node reports an error, with a {@link RequestTimeoutError} when
+     * the response is not received in time or with a {@link ConnectionLostError} when the connection is lost.
+     */
+    response: Promise<Buffer>;
+}
+
+export interface RmiAsyncOptions {
+    /**
+     * Timeout in milliseconds to wait for the async response after the request is confirmed.
+     * Defaults to the `requestTimeout` of the client.
+     */
+    responseTimeout?: number;
+}
+
+/**
+ * Duration of a schedule override in seconds, or `'indefinite'` to keep the override active until it is reset.
+ */
+export type ScheduleDuration = number | 'indefinite';
+
+export interface WritePropertyOptions {
+    /**
+     * Read the range of the property with {@link ComfoControlClient.getPropertyRange} and reject values outside
+     * of the range before sending the new value. Defaults to false.
+     */
+    validateRange?: boolean;
+}
+
+export interface FanModeOptions {
+    /**
+     * Number of seconds after which the ventilation unit reverts to its schedule on its own.
+     * When not set the fan mode stays active until it is changed.
+     */
+    durationSeconds?: number;
+}
+
+export interface BypassOptions {
+    /**
+     * Number of seconds after which the bypass returns to automatic mode on its own.
+     * When not set the bypass stays open or closed until it is changed.
+     */
+    durationSeconds?: number;
+}
+
+export interface BypassStatus {
+    /**
+     * Whether the bypass is controlled automatically or forced open or closed.
+     */
+    mode: BypassActivationMode;
+    /**
+     * Whether the bypass is currently closed, partially open or open.
+     */
+    state: BypassState;
+    /**
+     * The opening of the bypass in percent.
+     */
+    position: number;
+}
+
+export interface ActiveScheduleEntry {
+    /**
+     * The subunit of the SCHEDULE unit the entry overrides.
+     */
+    subunit: ScheduleSubunit;
+    /**
+     * The type of the entry.
+     */
+    entryType: ScheduleEntryType;
+    /**
+     * The value of the entry, for example the {@link FanMode} for the fan speed.
+     */
+    value: number;
+    /**
+     * Number of seconds until the entry expires; only reported for the timed fan speed entry and undefined when the
+     * entry does not expire.
+     */
+    remainingSeconds?: number;
+}
+
+export interface FilterStatus {
+    /**
+     * Number of days left before the filters must be replaced; 0 when the filters are overdue.
+     */
+    daysLeft: number;
+}
+
+export interface ComfoControlNode {
     /**
      * The ID of the node.
      */
@@ -90,31 +333,74 @@ interface ComfoControlNode {
     /**
      * The mode of the node.
      */
-    mode: number;
+    mode: NodeModeType;
 }
 
-export enum FanMode {
-    Away = 0,
-    Low = 1,
-    Medium = 2,
-    High = 3,
-}
-
-export enum TemperatureProfile {
-    Normal = 0,
-    Cool = 1,
-    Warm = 2,
+export enum BalanceMode {
+    /** Both fans run, the supply and exhaust air flow are balanced. */
+    Balanced = 0,
+    /** Only the supply fan runs. */
+    SupplyOnly = 1,
+    /** Only the exhaust fan runs. */
+    ExhaustOnly = 2,
 }
 
+/**
+ * Operating mode set with {@link ComfoControlClient.setOperatingMode}. The mode the unit reports in its PDOs is
+ * decoded as {@link OperatingModeState}, which uses different values.
+ */
 export enum OperationMode {
     Manual = 1,
     Auto = 0
 }
 
+/**
+ * Schedule entries read by {@link ComfoControlClient.getActiveScheduleEntries}.
+ */
+const SCHEDULE_ENTRIES: Array<[ScheduleSubunit, ScheduleEntryType]> = [
+    [ScheduleSubunit.FAN_SPEED, ScheduleEntryType.MANUAL],
+    [ScheduleSubunit.FAN_SPEED, ScheduleEntryType.TIMER],
+    [ScheduleSubunit.BYPASS, ScheduleEntryType.MANUAL],
+    [ScheduleSubunit.TEMPERATURE_PROFILE, ScheduleEntryType.MANUAL],
+    [ScheduleSubunit.SUPPLY_ONLY, ScheduleEntryType.MANUAL],
+    [ScheduleSubunit.EXHAUST_ONLY, ScheduleEntryType.MANUAL],
+    [ScheduleSubunit.OPERATING_MODE, ScheduleEntryType.MANUAL],
+];
+
+/**
+ * RMI properties of the ERROR unit. The active errors are a bitmap that is decoded with the alarm catalog,
+ * see {@link decodeAlarms}.
+ */
+const ERROR_UNIT_PROPERTIES = {
+    ACTIVE_ERRORS: 0x01,
+};
+
 /**
  * Opcodes that are exempt from the session check.
  */
-const SESSION_EXEMPT_OPCODES = [Opcode.REGISTER_DEVICE_REQUEST, Opcode.START_SESSION_REQUEST, Opcode.KEEP_ALIVE];
+const SESSION_EXEMPT_OPCODES = [
+    Opcode.REGISTER_DEVICE_REQUEST,
+    Opcode.START_SESSION_REQUEST,
+    Opcode.CLOSE_SESSION_REQUEST,
+    Opcode.KEEP_ALIVE,
+];
+
+/**
+ * Opcodes of requests that only read data and can safely be sent again after a reconnect.
+ */
+const IDEMPOTENT_OPCODES = [
+    Opcode.CN_NODE_REQUEST,
+    Opcode.VERSION_REQUEST,
+    Opcode.LIST_REGISTERED_APPS_REQUEST,
+    Opcode.GET_REMOTE_ACCESS_ID_REQUEST,
+    Opcode.GET_SUPPORT_ID_REQUEST,
+    Opcode.GET_WEB_ID_REQUEST,
+];
+
+/**
+ * RMI commands that only read property values: get single property (0x01) and get multiple properties (0x02).
+ */
+const IDEMPOTENT_RMI_COMMANDS = [0x01, 0x02];
 
 /**
  * The state of the session with the device.
@@ -129,6 +415,13 @@ export interface DevicePropertyListner<P extends DeviceProperty = DeviceProperty
     (update: { readonly propertyName: string; readonly value: PropertyNativeType<P>, readonly raw: Buffer } & DeviceProperty): unknown;
 }
 
+interface PendingRequest {
+    id: number;
+    opcode: keyof typeof requestMessages;
+    data: object;
+    reply: DeferredPromise<ComfoControlMessage>;
+}
+
 type OpcodeResponse<T extends Opcode> = T extends keyof typeof requestMessages
     ? (typeof requestMessages)[T] extends Opcode.NO_OPERATION
         ? void
@@ -156,14 +449,36 @@ type OpcodeResponse<T extends Opcode> = T extends keyof typeof requestMessages
  * - Make sure to handle errors for production use.
  * - Register property listeners to receive real-time updates.
  *
+ * Events:
+ * - reconnecting: emitted before each reconnect attempt with the attempt number and the delay in milliseconds
+ * - reconnected: emitted when the connection and session are restored with the number of attempts it took
+ * - reconnectFailed: emitted when the maximum number of reconnect attempts is reached with the last error
+ * - nodeAdded: emitted when a ComfoNet node is reported for the first time
+ * - nodeChanged: emitted when the product type, zone or mode of a known ComfoNet node changes, with the previous state
+ * - alarm: emitted when a node reports its active alarms
+ * - gatewayNotification: emitted when the gateway sends a push notification, such as an alarm push
+ *
  * @public
  */
-export class ComfoControlClient {
+export class ComfoControlClient extends EventEmitter<{
+    reconnecting: [attempt: number, delay: number];
+    reconnected: [attempts: number];
+    reconnectFailed: [error: unknown];
+    nodeAdded: [node: ComfoControlNode];
+    nodeChanged: [node: ComfoControlNode, previous: ComfoControlNode];
+    alarm: [notification: AlarmNotification];
+    gatewayNotification: [notification: GatewayNotificationEvent];
+}> {
     private transport: ComfoControlTransport;
-    private pendingReplies: Record<number, DeferredPromise<ComfoControlMessage>> = {};
+    private pendingReplies: Record<number, PendingRequest> = {};
+    private pendingAsyncResponses: Record<number, DeferredPromise<ComfoControlMessage>> = {};
+    private replayQueue: PendingRequest[] = [];
     private sessionState = SessionState.None;
     private nodes: Record<number, ComfoControlNode> = {};
     private deviceName: string;
+    private pin: number;
+    private restoreSession = false;
+    private reconnecting = false;
 
     private deviceProperties: Record<
         number,
@@ -171,6 +486,10 @@ export class ComfoControlClient {
             listners: Array<DevicePropertyListner>;
             propertyName: string;
             registered: boolean;
+            /**
+             * The last value reported by the gateway in the current session.
+             */
+            value?: unknown;
         } & DeviceProperty
     > = {};
 
@@ -181,8 +500,8 @@ export class ComfoControlClient {
         [Opcode.CLOSE_SESSION_REQUEST]: this.onSessionClosed.bind(this),
         [Opcode.CN_NODE_NOTIFICATION]: this.onNodeNotification.bind(this),
         [Opcode.CN_RPDO_NOTIFICATION]: this.onPropertyUpdateNotification.bind(this),
-        [Opcode.GATEWAY_NOTIFICATION]: this.onNotification.bind(this),
-        [Opcode.CN_ALARM_NOTIFICATION]: this.onNotification.bind(this),
+        [Opcode.GATEWAY_NOTIFICATION]: this.onGatewayNotification.bind(this),
+        [Opcode.CN_ALARM_NOTIFICATION]: this.onAlarmNotification.bind(this),
     };
 
     public get sessionActive() {
@@ -197,11 +516,13 @@ export class ComfoControlClient {
         private readonly options: ComfoControlClientOptions,
         private readonly logger: Logger = new Logger('ComfoAirDevice'),
     ) {
+        super();
         ComfoControlClient.wrapLogger(this.logger, options);
         this.deviceName = options.deviceName ?? NetworkUtils.getHostname() ?? 'ComfoControlClient';
+        this.pin = options.pin ?? 0;
         this.transport = new ComfoControlTransport(options, this.logger.createLogger('Transport'));
         this.transport.on('message', (message) => this.processMessage(message));
-        this.transport.on('disconnect', () => (this.sessionState = SessionState.None));
+        this.transport.on('disconnect', () => this.onDisconnect());
     }
 
     /**
@@ -237,30 +558,28 @@ export class ComfoControlClient {
      * - When you get a `Failed to register: NOT_ALLOWED` the device PIN code is incorrect.
      *
      * @returns {Promise<void>} A promise that resolves when the session is successfully started.
-     * @throws Will throw an error if the session is already active or in the process of starting, or if the registration or session start fails.
+     * @throws {SessionError} If the session is already active or in the process of starting, or if the registration or session start is rejected by the gateway.
      */
     public async startSession(): Promise<void> {
         if (this.sessionState !== SessionState.None) {
-            throw new Error('Session is already active or in the process of starting');
+            throw new SessionError('Session is already active or in the process of starting');
         }
 
         this.logger.info(`Registering with server as: ${this.deviceName}`);
         this.sessionState = SessionState.Registering;
 
         try {
-            const registerResponse = await this.send(Opcode.REGISTER_DEVICE_REQUEST, {
+            await this.send(Opcode.REGISTER_DEVICE_REQUEST, {
                 deviceName: this.deviceName,
-                pin: this.options.pin ?? 0,
+                pin: this.pin,
                 uuid: Buffer.from(this.options.uuid, 'hex'),
+            }).catch((err) => {
+                throw ComfoControlClient.toSessionError('Failed to register', err);
             });
-            if (registerResponse.resultCode !== Result.OK) {
-                throw new Error(`Failed to register: ${registerResponse.resultName}`);
-            }
 
-            const sessionResponse = await this.send(Opcode.START_SESSION_REQUEST, { takeover: true });
-            if (sessionResponse.resultCode !== Result.OK) {
-                throw new Error(`Failed to start session: ${sessionResponse.resultName}`);
-            }
+            await this.send(Opcode.START_SESSION_REQUEST, { takeover: true }).catch((err) => {
+                throw ComfoControlClient.toSessionError('Failed to start session', err);
+            });
         } catch (err) {
             this.sessionState = SessionState.None;
             throw err;
@@ -268,6 +587,12 @@ export class ComfoControlClient {
 
         this.logger.info('Session started with device');
         this.sessionState = SessionState.Active;
+        this.restoreSession = true;
+
+        // Values reported in a previous session are stale, the gateway reports them again once re-registered
+        for (const info of Object.values(this.deviceProperties)) {
+            info.value = undefined;
+        }
 
         // Re-register all properties that were registered before the session was closed
         for (const info of Object.values(this.deviceProperties).filter((p) => p.registered)) {
@@ -280,6 +605,13 @@ export class ComfoControlClient {
         }
     }
 
+    private static toSessionError(message: string, err: unknown): unknown {
+        if (err instanceof GatewayResultError) {
+            return new SessionError(`${message}: ${Result[err.result] ?? 'UNKNOWN'}`, err.result, { cause: err });
+        }
+        return err;
+    }
+
     /**
      * Call this method to stop the session with the ComfoControl Gateway.
      */
@@ -289,12 +621,14 @@ export class ComfoControlClient {
         }
 
         this.logger.info('Closing session with device');
-        this.sessionState = SessionState.None;
-
         try {
             await this.send(Opcode.CLOSE_SESSION_REQUEST);
         } catch (err) {
             this.logger.error('Failed to close session:', err);
+        } finally {
+            // Only clear the state once the close went out; a disconnect after a deliberate stop must not reconnect
+            this.sessionState = SessionState.None;
+            this.restoreSession = false;
         }
     }
 
@@ -308,7 +642,10 @@ export class ComfoControlClient {
      * @param {T} opcode - The opcode of the request.
      * @param {TRequest} [data] - The data to send with the request.
      * @returns {Promise<ComfoControlMessage<R>>} A promise that resolves to the response message.
-     * @throws Will throw an error if the transport is already connecting, the session is not active, or the response opcode is unexpected.
+     * @throws {GatewayResultError} If the gateway responds with a result other than {@link Result.OK}.
+     * @throws {RequestTimeoutError} If the gateway does not respond within the request timeout.
+     * @throws {ConnectionLostError} If the connection is lost before the gateway responds.
+     * @throws Will throw an error if the transport is already connecting, the session cannot be started, or the response opcode is unexpected.
      */
     public async send<T extends keyof typeof requestMessages>(
         opcode: T,
@@ -316,26 +653,49 @@ export class ComfoControlClient {
     ): Promise<OpcodeResponse<T>> {
         await this.ensureConnected(opcode);
         const responseOpcode = requestMessages[opcode];
-        const requestId = await this.transport.send(opcode, data ?? ({} as OpcodeMessageType<T>));
+        const requestData = data ?? ({} as OpcodeMessageType<T>);
+        const requestId = await this.transport.send(opcode, requestData);
 
         if (!responseOpcode || responseOpcode === Opcode.NO_OPERATION) {
             return void 0 as OpcodeResponse<T>;
         }
 
-        this.pendingReplies[requestId] = new DeferredPromise<ComfoControlMessage>();
-        this.pendingReplies[requestId].finally(() => delete this.pendingReplies[requestId]);
+        const request: PendingRequest = {
+            id: requestId,
+            opcode,
+            data: requestData,
+            reply: new DeferredPromise<ComfoControlMessage>(),
+        };
+        const cleanup = () => {
+            if (this.pendingReplies[request.id] === request) {
+                delete this.pendingReplies[request.id];
+            }
+        };
+        this.pendingReplies[requestId] = request;
+        request.reply.then(cleanup, cleanup);
 
+        const requestTimeout = this.options.requestTimeout ?? 15000;
         return timeout(
-            this.pendingReplies[requestId].then((response) => {
+            request.reply.then((response) => {
                 if (response.opcode !== responseOpcode) {
-                    throw new Error(
+                    throw new ComfoControlError(
                         `Unexpected response opcode: ${Opcode[response.opcode]} (expected: ${Opcode[responseOpcode]})`,
                     );
                 }
+                if (response.resultCode !== Result.OK) {
+                    throw new GatewayResultError(opcode, response.resultCode, response);
+                }
                 return response as unknown as OpcodeResponse<T>;
             }),
-            this.options.requestTimeout ?? 15000,
-            'Gateway did not response within the specified timeout period',
+            requestTimeout,
+            () => {
+                const error = new RequestTimeoutError(opcode, requestTimeout);
+                // Settle the reply so the request is removed and not replayed after a reconnect
+                if (!request.reply.isResolved) {
+                    request.reply.reject(error);
+                }
+                return error;
+            },
         );
     }
 
@@ -343,7 +703,7 @@ export class ComfoControlClient {
         // Ensure the transport is connected
         if (!this.transport.isConnected) {
             if (this.transport.isConnecting) {
-                throw new Error('Transport is already connecting');
+                throw new ConnectionError('Transport is already connecting');
             }
             await this.transport.connect();
         }
@@ -356,10 +716,21 @@ export class ComfoControlClient {
 
     private async processMessage(message: ComfoControlMessage) {
         this.logger.verbose(`Recv ${message.opcodeName} (ID: ${message.id}) >> ${message.resultName}`);
-        const responsePromise = this.pendingReplies[message.id];
-        if (responsePromise) {
+        const pendingRequest = this.pendingReplies[message.id];
+        const pendingAsyncResponse = this.pendingAsyncResponses[message.id];
+        if (message.opcode === Opcode.CN_RMI_ASYNC_RESPONSE && pendingAsyncResponse) {
+            delete this.pendingAsyncResponses[message.id];
+            pendingAsyncResponse.resolve(message);
+        } else if (pendingRequest) {
+            if (message.opcode === Opcode.CN_RMI_ASYNC_CONFIRM && message.resultCode === Result.OK) {
+                // Register for the async response before the confirm is handled; the response can arrive in the same chunk
+                const asyncResponse = new DeferredPromise<ComfoControlMessage>();
+                // Avoid an unhandled rejection when the request timed out before the confirm arrived
+                asyncResponse.catch(() => {});
+                this.pendingAsyncResponses[message.id] = asyncResponse;
+            }
             //throw new Error(`Received response for unknown request ID: ${message.id} (${message.opcodeName}})`);
-            responsePromise.resolve(message);
+            pendingRequest.reply.resolve(message);
         } else if (this.handlers[message.opcode]) {
             try {
                 await this.handlers[message.opcode]!(message);
@@ -371,13 +742,28 @@ export class ComfoControlClient {
 
     private onNodeNotification(message: ComfoControlMessage<Opcode.CN_NODE_NOTIFICATION>) {
         const notification = message.deserialize();
-        this.logger.info(`Found ${NodeProductType[notification.productId]} (${notification.nodeId})`);
-        this.nodes[notification.nodeId] = {
+        const node: ComfoControlNode = {
             id: notification.nodeId,
             productType: notification.productId,
             zoneId: notification.zoneId,
             mode: notification.mode,
         };
+        const previous = this.nodes[node.id];
+        this.nodes[node.id] = node;
+
+        if (!previous) {
+            this.logger.info(`Found ${NodeProductType[node.productType]} (${node.id})`);
+            this.emit('nodeAdded', node);
+        } else if (
+            previous.productType !== node.productType ||
+            previous.zoneId !== node.zoneId ||
+            previous.mode !== node.mode
+        ) {
+            this.logger.info(
+                `Node ${NodeProductType[node.productType]} (${node.id}) changed mode to ${NodeModeType[node.mode]}`,
+            );
+            this.emit('nodeChanged', node, previous);
+        }
     }
 
     private onPropertyUpdateNotification(message: ComfoControlMessage<Opcode.CN_RPDO_NOTIFICATION>) {
@@ -392,30 +778,192 @@ export class ComfoControlClient {
         }
 
         const raw = Buffer.from(notification.data);
-        const value = deserializePropertyValue(info, raw);
+        const decoded = deserializePropertyValue(info, raw);
+        const value = info.convert?.(decoded) ?? decoded;
+        info.value = value;
         for (const listener of info.listners) {
             listener({
                 propertyId: info.propertyId,
                 propertyName: info.propertyName,
                 dataType: info.dataType,
-                value: info.convert?.(value) ?? value, 
-                raw
+                value,
+                raw,
             });
         }
     }
 
-    private onNotification() {}
+    private onGatewayNotification(message: ComfoControlMessage<Opcode.GATEWAY_NOTIFICATION>) {
+        const notification = message.deserialize();
+        this.logger.info(`Gateway notification received${notification.alarm ? ' for an alarm' : ''}`);
+        this.emit('gatewayNotification', {
+            pushUuids: notification.pushUUIDs.map((uuid) => Buffer.from(uuid).toString('hex')),
+            alarm: notification.alarm && ComfoControlClient.toAlarmNotification(notification.alarm),
+        });
+    }
+
+    private onAlarmNotification(message: ComfoControlMessage<Opcode.CN_ALARM_NOTIFICATION>) {
+        const notification = ComfoControlClient.toAlarmNotification(message.deserialize());
+        this.logger.warn(
+            `Alarm on ${NodeProductType[notification.productType] ?? 'UNKNOWN'} (${notification.nodeId}): ${notification.alarms.map((a) => a.name).join(', ') || 'none'}`,
+        );
+        this.emit('alarm', notification);
+    }
+
+    private static toAlarmNotification(notification: CnAlarmNotification): AlarmNotification {
+        return {
+            nodeId: notification.nodeId,
+            productType: notification.productId,
+            productVariant: notification.productVariant,
+            serialNumber: notification.serialNumber,
+            firmwareVersion: decodeFirmwareVersion(notification.swProgramVersion),
+            error: getAlarm(notification.errorId),
+            alarms: decodeAlarms(notification.errors),
+        };
+    }
 
     private onSessionClosed() {
         this.logger.info('Session closed by ComfoControl server');
         this.sessionState = SessionState.None;
+        // The session was taken over or closed on purpose by the gateway; do not fight over it by reconnecting
+        this.restoreSession = false;
+        this.rejectPendingRequests();
         this.transport.disconnect();
     }
 
+    private onDisconnect() {
+        this.sessionState = SessionState.None;
+        const reconnect = !!this.options.reconnect && this.restoreSession;
+        this.rejectPendingRequests(reconnect && this.getReconnectPolicy().replayReads);
+        if (reconnect && !this.reconnecting) {
+            this.reconnect().catch((err) => this.logger.error('Unexpected error while reconnecting:', err));
+        }
+    }
+
+    /**
+     * Rejects all requests that are waiting for a response with a {@link ConnectionLostError}.
+     * @param replayReads When true idempotent read requests are queued for replay after reconnecting instead.
+     */
+    private rejectPendingRequests(replayReads?: boolean) {
+        const pendingRequests = Object.values(this.pendingReplies);
+        this.pendingReplies = {};
+
+        // Async responses are never replayed; the node will not send the response on a new connection
+        const pendingAsyncResponses = Object.values(this.pendingAsyncResponses);
+        this.pendingAsyncResponses = {};
+        for (const response of pendingAsyncResponses) {
+            response.reject(new ConnectionLostError(Opcode.CN_RMI_ASYNC_REQUEST));
+        }
+
+        for (const request of pendingRequests) {
+            if (replayReads && ComfoControlClient.isIdempotentRequest(request)) {
+                this.logger.verbose(`Queueing ${Opcode[request.opcode]} (ID: ${request.id}) for replay`);
+                this.replayQueue.push(request);
+            } else {
+                request.reply.reject(new ConnectionLostError(request.opcode));
+            }
+        }
+    }
+
+    private async replayPendingRequests() {
+        const requests = this.replayQueue.splice(0);
+        for (const request of requests) {
+            if (request.reply.isResolved) {
+                continue;
+            }
+            try {
+                request.id = await this.transport.send(request.opcode, request.data);
+                this.pendingReplies[request.id] = request;
+                this.logger.verbose(`Replayed ${Opcode[request.opcode]} (ID: ${request.id})`);
+            } catch (err) {
+                request.reply.reject(err);
+            }
+        }
+    }
+
+    private static isIdempotentRequest(request: PendingRequest) {
+        if (request.opcode === Opcode.CN_RMI_REQUEST) {
+            const message = (request.data as OpcodeMessageType<Opcode.CN_RMI_REQUEST>).message;
+            return IDEMPOTENT_RMI_COMMANDS.includes(message[0]);
+        }
+        if (request.opcode === Opcode.CN_TIME_REQUEST) {
+            return (request.data as OpcodeMessageType<Opcode.CN_TIME_REQUEST>).setTime === undefined;
+        }
+        return IDEMPOTENT_OPCODES.includes(request.opcode);
+    }
+
+    private getReconnectPolicy(): ReconnectOptions {
+        return typeof this.options.reconnect === 'object' ? this.options.reconnect : {};
+    }
+
+    /**
+     * Reconnects the transport and restarts the session using an exponential backoff with jitter between attempts.
+     * Properties that were registered are re-registered by {@link startSession} once the session is restored.
+     */
+    private async reconnect(): Promise<void> {
+        const policy = this.getReconnectPolicy();
+        const maxAttempts = policy.maxAttempts ?? Infinity;
+        let lastError: unknown;
+
+        this.reconnecting = true;
+        try {
+            for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+                const delay = ComfoControlClient.getReconnectDelay(policy, attempt);
+                this.logger.info(`Reconnecting in ${delay}ms (attempt ${attempt})`);
+                this.emit('reconnecting', attempt, delay);
+                await wait(delay);
+
+                if (!this.restoreSession) {
+                    this.logger.info('Session was stopped, cancelling reconnect');
+                    this.rejectReplayQueue();
+                    return;
+                }
+
+                try {
+                    if (!this.transport.isConnected) {
+                        await this.transport.connect();
+                    }
+                    if (!this.sessionActive) {
+                        await this.startSession();
+                    }
+                    this.logger.info(`Reconnected after ${attempt} attempt(s)`);
+                    await this.replayPendingRequests();
+                    this.emit('reconnected', attempt);
+                    return;
+                } catch (err) {
+                    this.logger.warn(`Reconnect attempt ${attempt} failed:`, err);
+                    lastError = err;
+                }
+            }
+        } finally {
+            this.reconnecting = false;
+        }
+
+        this.logger.error(`Giving up reconnecting after ${maxAttempts} attempt(s)`);
+        this.restoreSession = false;
+        this.rejectReplayQueue();
+        this.emit('reconnectFailed', lastError);
+    }
+
+    private rejectReplayQueue() {
+        for (const request of this.replayQueue.splice(0)) {
+            if (!request.reply.isResolved) {
+                request.reply.reject(new ConnectionLostError(request.opcode));
+            }
+        }
+    }
+
+    private static getReconnectDelay(policy: ReconnectOptions, attempt: number): number {
+        const initialDelay = policy.initialDelay ?? 1000;
+        const maxDelay = policy.maxDelay ?? 60000;
+        const jitter = Math.min(Math.max(policy.jitter ?? 0.2, 0), 1);
+        const delay = Math.min(initialDelay * Math.pow(policy.multiplier ?? 2, attempt - 1), maxDelay);
+        return Math.round(delay * (1 - jitter + Math.random() * jitter * 2));
+    }
+
     /**
      * Retrieves the current server time from the ComfoControl device.
      * Sends a CN_TIME_REQUEST opcode to the device and processes the response to get the current time.
-     * The time is returned as a Date object.
+     * The time is returned as a Date object, see {@link decodeCnTime} for how the wall-clock time of the unit is mapped.
      *
      * @returns {Promise<Date>} A promise that resolves to the current server time as a Date object.
      * @throws Will throw an error if the request fails or the response is invalid.
@@ -423,7 +971,136 @@ export class ComfoControlClient {
     public async getServerTime(): Promise<Date> {
         const response = await this.send(Opcode.CN_TIME_REQUEST);
         const msg = response.deserialize();
-        return new Date(new Date(2000, 1, 1).getTime() + msg.currentTime * 1000);
+        return decodeCnTime(msg.currentTime);
+    }
+
+    /**
+     * Sets the clock of the ventilation unit. The local wall-clock time of this host is sent to the unit.
+     * @param date The time to set.
+     * @returns {Promise<Date>} A promise that resolves to the time reported by the unit after setting it.
+     */
+    public async setServerTime(date: Date): Promise<Date> {
+        const response = await this.send(Opcode.CN_TIME_REQUEST, { setTime: encodeCnTime(date) });
+        const msg = response.deserialize();
+        return decodeCnTime(msg.currentTime);
+    }
+
+    /**
+     * Synchronizes the clock of the ventilation unit with the clock of this host when the drift exceeds a threshold.
+     * A correct clock is required for the weekly schedules on the unit.
+     *
+     * @param threshold The maximum allowed drift in seconds before the clock is corrected. Defaults to 60 seconds.
+     * @returns {Promise<ClockSyncResult>} A promise that resolves to the measured drift and whether it was corrected.
+     */
+    public async syncClock(threshold: number = 60): Promise<ClockSyncResult> {
+        const serverTime = await this.getServerTime();
+        // CN_TIME has a resolution of seconds; compare against the local time truncated to seconds
+        const drift = serverTime.getTime() - Math.floor(Date.now() / 1000) * 1000;
+
+        if (Math.abs(drift) <= threshold * 1000) {
+            return { drift, corrected: false };
+        }
+
+        this.logger.info(`Clock of the ventilation unit drifted ${drift / 1000}s, setting the clock`);
+        await this.setServerTime(new Date());
+        return { drift, corrected: true };
+    }
+
+    /**
+     * Returns the ComfoNet nodes reported by the gateway so far, such as the ventilation unit, a ComfoCool, OptionBox or ComfoSense.
+     * Nodes are reported by the gateway after the session is started; use {@link refreshNodes} to request them again.
+     * @returns The known nodes ordered by node ID.
+     */
+    public getNodes(): ComfoControlNode[] {
+        return Object.values(this.nodes).map((node) => ({ ...node }));
+    }
+
+    /**
+     * Requests the gateway to report all ComfoNet nodes by sending a CN_NODE_REQUEST and collects the
+     * CN_NODE_NOTIFICATION messages that are received within the collect time.
+     * @param collectTime The time in milliseconds to wait for node notifications. Defaults to 1000ms.
+     * @returns {Promise<ComfoControlNode[]>} A promise that resolves to the known nodes ordered by node ID.
+     */
+    public async refreshNodes(collectTime: number = 1000): Promise<ComfoControlNode[]> {
+        await this.send(Opcode.CN_NODE_REQUEST);
+        await wait(collectTime);
+        return this.getNodes();
+    }
+
+    /**
+     * Retrieves the firmware version and serial number of the ComfoConnect gateway.
+     * Sends a VERSION_REQUEST opcode to the gateway and decodes the VERSION_CONFIRM response.
+     *
+     * @example
+     * ```typescript
+     * const info = await client.getGatewayInfo();
+     * console.log(`Gateway ${info.serialNumber} runs ${formatFirmwareVersion(info.gatewayVersion)}`);
+     * ```
+     *
+     * @returns {Promise<GatewayInfo>} A promise that resolves to the gateway version information.
+     */
+    public async getGatewayInfo(): Promise<GatewayInfo> {
+        const response = await this.send(Opcode.VERSION_REQUEST);
+        const msg = response.deserialize();
+        return {
+            gatewayVersion: decodeFirmwareVersion(msg.gatewayVersion),
+            serialNumber: msg.serialNumber,
+            comfoNetVersion: decodeFirmwareVersion(msg.comfoNetVersion),
+        };
+    }
+
+    /**
+     * Lists all apps and devices that are registered with the ComfoConnect gateway.
+     * @returns {Promise<RegisteredApp[]>} A promise that resolves to the registered apps.
+     */
+    public async listRegisteredApps(): Promise<RegisteredApp[]> {
+        const response = await this.send(Opcode.LIST_REGISTERED_APPS_REQUEST);
+        return response.deserialize().apps.map((app) => ({
+            uuid: Buffer.from(app.uuid).toString('hex'),
+            deviceName: app.deviceName,
+        }));
+    }
+
+    /**
+     * Removes the registration of an app or device from the ComfoConnect gateway.
+     * Use {@link listRegisteredApps} to find the UUID of the app to deregister.
+     * @param uuid UUID of the app to deregister encoded as HEX string.
+     * @throws {InvalidArgumentError} If the UUID is not a HEX string of up to 32 characters.
+     * @throws {GatewayResultError} If the gateway does not allow the app to be deregistered.
+     */
+    public async deregisterApp(uuid: string): Promise<void> {
+        if (!/^[0-9a-f]{1,32}$/i.test(uuid)) {
+            throw new InvalidArgumentError(`Invalid app UUID: ${uuid}; expected a HEX string of up to 32 characters`);
+        }
+        await this.send(Opcode.UNREGISTER_DEVICE_REQUEST, { uuid: Buffer.from(uuid.padStart(32, '0'), 'hex') });
+    }
+
+    /**
+     * Changes the PIN code of the ComfoConnect gateway. The new PIN is used when the client registers with the gateway again,
+     * for example after a reconnect.
+     *
+     * @param oldPin The current PIN code of the gateway, between 0 and 9999.
+     * @param newPin The new PIN code of the gateway, between 0 and 9999.
+     * @throws {InvalidArgumentError} If one of the PIN codes is not between 0 and 9999.
+     * @throws {InvalidPinError} If the gateway does not accept the current PIN code.
+     */
+    public async changePin(oldPin: number, newPin: number): Promise<void> {
+        for (const pin of [oldPin, newPin]) {
+            if (!Number.isInteger(pin) || pin < 0 || pin > 9999) {
+                throw new InvalidArgumentError(`Invalid PIN code: ${pin}; expected a 4 digit PIN between 0 and 9999`);
+            }
+        }
+
+        try {
+            await this.send(Opcode.CHANGE_PIN_REQUEST, { oldPin, newPin });
+        } catch (err) {
+            if (err instanceof GatewayResultError && err.result === Result.NOT_ALLOWED) {
+                throw new InvalidPinError(err.opcode, err.result, err.response);
+            }
+            throw err;
+        }
+
+        this.pin = newPin;
     }
 
     /**
@@ -450,6 +1127,60 @@ export class ComfoControlClient {
         }
     }
 
+    /**
+     * Removes a listener that was registered with {@link registerPropertyListener}. Once the last listener of a
+     * property is removed the property is no longer re-registered when the session is restored.
+     *
+     * @param property The property the listener was registered for.
+     * @param listener The listener to remove.
+     */
+    public unregisterPropertyListener<T extends DeviceProperty>(property: T, listener: DevicePropertyListner<T>): void {
+        const info = this.deviceProperties[property.propertyId];
+        if (!info) {
+            return;
+        }
+
+        removeArrayElement(info.listners, listener);
+        if (info.listners.length === 0) {
+            info.registered = false;
+        }
+    }
+
+    /**
+     * Reads the current value of a property once. Resolves with the last value reported by the gateway in the current
+     * session when the property was registered before, otherwise registers for updates of the property and resolves
+     * with the first value that is reported by the gateway.
+     *
+     * @param property The property to read.
+     * @returns {Promise<PropertyNativeType<T>>} A promise that resolves to the value of the property.
+     * @throws {RequestTimeoutError} If the gateway does not report the value within the request timeout.
+     */
+    public async readPropertyValue<T extends DeviceProperty>(property: T): Promise<PropertyNativeType<T>> {
+        const cached = this.deviceProperties[property.propertyId]?.value;
+        if (this.sessionActive && cached !== undefined) {
+            return cached as PropertyNativeType<T>;
+        }
+
+        const value = new DeferredPromise<PropertyNativeType<T>>();
+        const listener: DevicePropertyListner<T> = (update) => {
+            if (!value.isResolved) {
+                value.resolve(update.value);
+            }
+        };
+
+        await this.registerPropertyListener(property, listener);
+        const requestTimeout = this.options.requestTimeout ?? 15000;
+        try {
+            return await timeout(
+                value,
+                requestTimeout,
+                () => new RequestTimeoutError(Opcode.CN_RPDO_REQUEST, requestTimeout),
+            );
+        } finally {
+            this.unregisterPropertyListener(property, listener);
+        }
+    }
+
     private async requestPropertyUpdates(property: DeviceProperty) {
         await this.send(Opcode.CN_RPDO_REQUEST, {
             pdid: property.propertyId,
@@ -497,152 +1228,513 @@ export class ComfoControlClient {
      * @returns A promise that resolves to the value of the property.
      */
     public async readProperty<T extends NodeProperty>(prop: T): Promise<PropertyNativeType<T>> {
-        return deserializePropertyValue(prop, await this.readPropertyRawValue(prop));
+        return this.executeRmi(new GetPropertyMessage(prop));
     }
 
+    /**
+     * Reads the raw value of an RMI property from the device without deserializing it.
+     * @param prop The property to read.
+     * @returns A promise that resolves to the raw value of the property.
+     * @throws {RmiError} If the ventilation unit rejects the request.
+     */
     public async readPropertyRawValue(prop: NodeProperty): Promise<Buffer> {
-        const response = await this.send(Opcode.CN_RMI_REQUEST, {
-            nodeId: prop.node,
-            message: Buffer.from([0x01, prop.unit, prop.subunit ?? 1, 0x10, prop.propertyId]),
+        const message = new GetPropertyMessage(prop);
+        return this.sendRmiRequest(message.target, message.encode(), message.action);
+    }
+
+    /**
+     * Reads multiple RMI properties from the device using the multi-property read (0x02) command.
+     * Properties are grouped per node, unit and subunit and read in batches of up to 8 properties per request,
+     * so any number of properties can be passed.
+     *
+     * @example
+     * ```typescript
+     * const [serial, model] = await client.readProperties([
+     *     VentilationUnitProperties.NODE.SERIAL_NUMBER,
+     *     VentilationUnitProperties.NODE.MODEL_NUMBER,
+     * ]);
+     * ```
+     *
+     * @param props The properties to read.
+     * @returns A promise that resolves to the values of the properties in the same order as the properties.
+     * @throws {RmiError} If the ventilation unit rejects one of the requests.
+     */
+    public async readProperties<const T extends readonly NodeProperty[]>(
+        props: T,
+    ): Promise<{ -readonly [K in keyof T]: PropertyNativeType<T[K]> }> {
+        const values: unknown[] = new Array(props.length);
+        const groups = new Map<string, number[]>();
+        props.forEach((prop, index) => {
+            const key = [prop.node, prop.unit, prop.subunit ?? 1].join(':');
+            groups.set(key, [...(groups.get(key) ?? []), index]);
         });
-        const responseMessage = response.deserialize();
 
-        if (responseMessage.result !== ErrorCodes.NO_ERROR) {
-            throw new Error(
-                `Failed to read property: ${ErrorCodes[responseMessage.result] ?? 'UNKNOWN'} (${responseMessage.result})`,
-            );
+        for (const indexes of groups.values()) {
+            for (let i = 0; i < indexes.length; i += GetPropertiesMessage.MAX_PROPERTIES) {
+                const batch = indexes.slice(i, i + GetPropertiesMessage.MAX_PROPERTIES);
+                const batchProps = batch.map((index) => props[index]);
+                const rawValues = await this.readPropertiesRawValues(batchProps);
+                batch.forEach((index, j) => (values[index] = decodeNodePropertyValue(props[index], rawValues[j])));
+            }
         }
 
-        return Buffer.from(responseMessage.message);
+        return values as { -readonly [K in keyof T]: PropertyNativeType<T[K]> };
     }
 
-    // public async readProperties<T extends NodeProperty>(props: T[]) : Promise<PropertyNativeType<T>> {
-    //     if (props.length > 8) {
-    //         throw new Error('Cannot read more than 8 properties at once');
-    //     }
-
-    //     const targets = props.map(prop => [prop.node, prop.unit, prop.subunit ?? 1].join(':'));
-    //     if (new Set(targets).size > 1) {
-    //         throw new Error('Properties must be from the same node, unit and subunit');
-    //     }
-
-    //     const response = await this.send(Opcode.CN_RMI_REQUEST, {
-    //         nodeId: props[0].node,
-    //         message: Buffer.from([0x02, props[0].unit, props[0].subunit ?? 1, 0x10 | props.length, ...props.map(p => p.propertyId)]),
-    //     });
-    //     const responseMessage = response.deserialize();
-    // }
+    /**
+     * Reads the raw values of up to 8 RMI properties of the same node, unit and subunit with a single request.
+     * @param props The properties to read.
+     * @returns A promise that resolves to the raw value of each property.
+     * @throws {RmiError} If the ventilation unit rejects the request.
+     */
+    public async readPropertiesRawValues(props: readonly NodeProperty[]): Promise<Buffer[]> {
+        if (props.length === 0) {
+            return [];
+        }
+        return this.executeRmi(new GetPropertiesMessage(props));
+    }
 
     /**
      * Writes a property to the device. Predefined writable properties are available in the {@link VentilationUnitProperties} class.
      *
      * This methods executes a write operation on the device and waits for a comfirmation from the gateway that the operation was successful.
-     * If the operation fails, an error will be thrown. See {@link ErrorCodes} for a list of possible error codes that can be thrown.
+     * If the operation fails, an {@link RmiError} will be thrown. See {@link ErrorCodes} for a list of possible error codes that can be thrown.
      *
      * @param prop The property to write.
      * @param value The value to write to the property.
+     * @param options Optionally validate the value against the range of the property before writing it.
+     * @throws {RmiError} If the ventilation unit rejects the new value, or with {@link ErrorCodes.VALUE_NOT_IN_RANGE}
+     * if the value is outside of the range of the property when `validateRange` is set.
      */
-    public async writeProperty<T extends NodeProperty>(prop: T, value: PropertyNativeType<T>): Promise<void> {
+    public async writeProperty<T extends NodeProperty>(
+        prop: T,
+        value: PropertyNativeType<T>,
+        options?: WritePropertyOptions,
+    ): Promise<void> {
         if (prop.access === 'ro') {
-            throw new Error(
+            throw new InvalidArgumentError(
                 `Property ${prop.node}:${prop.unit}:${prop.subunit ?? 1}:${prop.propertyId} is read-only and cannot be written.`,
             );
         }
 
-        const message = Buffer.concat([
-            Buffer.from([0x03, prop.unit, prop.subunit ?? 1, prop.propertyId]),
-            serializePropertyValue(prop, value),
-        ]);
+        const message = new SetPropertyMessage(prop, value);
+        if (options?.validateRange && !ComfoControlClient.isInRange(value, await this.getPropertyRange(prop))) {
+            throw new RmiError(ErrorCodes.VALUE_NOT_IN_RANGE, message.target, message.action);
+        }
 
-        const response = await this.send(Opcode.CN_RMI_REQUEST, { nodeId: prop.node, message });
-        const responseMessage = response.deserialize();
+        await this.executeRmi(message);
+    }
 
-        if (responseMessage.result !== ErrorCodes.NO_ERROR) {
-            throw new Error(
-                `Failed to write property: ${ErrorCodes[responseMessage.result] ?? 'UNKNOWN'} (${responseMessage.result})`,
-            );
+    /**
+     * Reads the minimum, maximum and step size of an RMI property, decoded with the data type of the property.
+     *
+     * @example
+     * ```typescript
+     * const { min, max, step } = await client.getPropertyRange(VentilationUnitProperties.TEMPHUMCONTROL.TARGET_TEMPERATURE_HEATING);
+     * ```
+     *
+     * @param prop The property to read the range of.
+     * @returns A promise that resolves to the range of the property.
+     * @throws {RmiError} With {@link ErrorCodes.TYPE_CANNOT_HAVE_RANGE} if the data type of the property has no range.
+     */
+    public async getPropertyRange<T extends NodeProperty>(prop: T): Promise<PropertyRange<PropertyNativeType<T>>> {
+        return this.executeRmi(new GetPropertyRangeMessage(prop));
+    }
+
+    private static isInRange<T>(value: T, range: PropertyRange<T>): boolean {
+        // Only numeric properties can be validated; other types are left to the unit
+        if (typeof value !== 'number' && typeof value !== 'bigint') {
+            return true;
         }
+        const { min, max, step } = range as PropertyRange<number | bigint>;
+        if (value < min || value > max) {
+            return false;
+        }
+        if (typeof value === 'bigint') {
+            return !step || (value - BigInt(min)) % BigInt(step) === 0n;
+        }
+        // Scaled values are not exact, so allow a rounding error when checking the step
+        const steps = (value - Number(min)) / Number(step);
+        return !step || Math.abs(steps - Math.round(steps)) < 1e-6;
+    }
+
+    /**
+     * Reads the errors that are currently active on the ventilation unit from the ERROR unit.
+     * @returns {Promise<Alarm[]>} A promise that resolves to the active errors ordered by error code.
+     */
+    public async getActiveErrors(): Promise<Alarm[]> {
+        return decodeAlarms(await this.readErrorUnitProperty(ERROR_UNIT_PROPERTIES.ACTIVE_ERRORS));
+    }
+
+    /**
+     * Resets the active errors of the ventilation unit. Errors whose cause is not resolved are reported again by the unit.
+     */
+    public async resetErrors(): Promise<void> {
+        await this.executeRmi(new ResetErrorsMessage());
+    }
+
+    private readErrorUnitProperty(propertyId: number): Promise<Buffer> {
+        // The data type is not used to read the raw value
+        return this.readPropertyRawValue({
+            node: NodeTypes.VENTILATION_UNIT,
+            unit: UnitTypes.ERROR,
+            propertyId,
+            dataType: PropertyDataType.CN_UINT8,
+        });
+    }
+
+    /**
+     * Reads the filter status of the ventilation unit. The FILTER unit has no documented RMI properties or commands,
+     * so the status is read from the {@link ComfoAirProperties.DAYS_LEFT_BEFORE_FILTER_REPLACEMENT} PDO. The days since
+     * the last filter change and the filter interval are not available, and confirming a filter replacement or changing
+     * the interval is not supported, until the FILTER unit properties are documented.
+     * @returns {Promise<FilterStatus>} A promise that resolves to the days left before the filters must be replaced.
+     */
+    public async getFilterStatus(): Promise<FilterStatus> {
+        const daysLeft = await this.readPropertyValue(ComfoAirProperties.DAYS_LEFT_BEFORE_FILTER_REPLACEMENT);
+        return { daysLeft };
     }
 
     /**
      * Sets the fan mode of the ventilation unit.
+     *
+     * @example
+     * ```typescript
+     * // Run on high for 30 minutes, after which the unit reverts on its own
+     * await client.setFanMode(FanMode.High, { durationSeconds: 30 * 60 });
+     * ```
+     *
      * @param mode The fan mode to set.
+     * @param options Optionally the duration after which the unit reverts to its schedule.
      */
-    public setFanMode(mode: FanMode): Promise<void> {
+    public async setFanMode(mode: FanMode, options?: FanModeOptions): Promise<void> {
         if (mode < FanMode.Away || mode > FanMode.High) {
-            throw new Error(`Invalid fan mode: ${mode}`);
+            throw new InvalidArgumentError(`Invalid fan mode: ${mode}`);
         }
-        return this.executeRmiCommand(
-            0x84, 0x15, 1, 1,
-            0, 0, 0, 0,
-            1, 0, 0, 0, mode
+        const duration =
+            options?.durationSeconds === undefined
+                ? SCHEDULE_DURATION_INDEFINITE
+                : ComfoControlClient.validateDuration(options.durationSeconds);
+        return this.executeRmi(
+            new EnableScheduleEntryMessage(ScheduleSubunit.FAN_SPEED, ScheduleEntryType.MANUAL, {
+                duration,
+                value: mode,
+            }),
         );
     }
 
     /**
-     * Enables or disables bypass of the heat exchanger for the ventilation unit when true or 
+     * Runs the fans on high speed for a limited time, for example while showering or cooking.
+     * The ventilation unit ends the boost on its own when the duration expires, even if this client is no longer running.
+     * @param durationSeconds The number of seconds the boost lasts.
+     */
+    public async boost(durationSeconds: number): Promise<void> {
+        const duration = ComfoControlClient.validateDuration(durationSeconds);
+        return this.executeRmi(
+            new EnableScheduleEntryMessage(ScheduleSubunit.FAN_SPEED, ScheduleEntryType.TIMER, {
+                duration,
+                value: FanMode.High,
+            }),
+        );
+    }
+
+    /**
+     * Ends an active boost before it expires, the ventilation unit reverts to the previous fan mode.
+     */
+    public cancelBoost(): Promise<void> {
+        return this.executeRmi(new DisableScheduleEntryMessage(ScheduleSubunit.FAN_SPEED, ScheduleEntryType.TIMER));
+    }
+
+    /**
+     * Reads the active entries of the SCHEDULE unit, such as a manual fan speed, a boost or a bypass override.
+     * The remaining time of the timed fan speed entry is read from
+     * {@link ComfoAirProperties.COUNTDOWN_NEXT_FAN_SPEED_CHANGE}.
+     *
+     * @returns {Promise<ActiveScheduleEntry[]>} A promise that resolves to the active schedule entries.
+     * @throws {RmiError} If the unit rejects reading one of the entries.
+     */
+    public async getActiveScheduleEntries(): Promise<ActiveScheduleEntry[]> {
+        const entries: ActiveScheduleEntry[] = [];
+        for (const [subunit, entryType] of SCHEDULE_ENTRIES) {
+            const entry = await this.executeRmi(new GetScheduleEntryMessage(subunit, entryType));
+            if (entry.active) {
+                entries.push({ subunit, entryType, value: entry.value });
+            }
+        }
+
+        // The countdown only applies to the timed fan speed entry, the manual entry does not expire
+        const timedFanSpeed = entries.find(
+            (entry) => entry.subunit === ScheduleSubunit.FAN_SPEED && entry.entryType === ScheduleEntryType.TIMER,
+        );
+        if (timedFanSpeed) {
+            const countdown = await this.readPropertyValue(ComfoAirProperties.COUNTDOWN_NEXT_FAN_SPEED_CHANGE);
+            timedFanSpeed.remainingSeconds = countdown >= SCHEDULE_DURATION_INDEFINITE ? undefined : countdown;
+        }
+
+        return entries;
+    }
+
+    /**
+     * Turns off the exhaust fan so only fresh air is supplied, for example while lighting a fireplace.
+     * @param duration The number of seconds after which the unit reverts to balanced ventilation, or `'indefinite'`.
+     */
+    public async setSupplyOnly(duration: ScheduleDuration): Promise<void> {
+        await this.setBalanceOverride(ScheduleSubunit.SUPPLY_ONLY, ScheduleSubunit.EXHAUST_ONLY, duration);
+    }
+
+    /**
+     * Turns off the supply fan so only air is extracted, for example when the outdoor air is smoky.
+     * @param duration The number of seconds after which the unit reverts to balanced ventilation, or `'indefinite'`.
+     */
+    public async setExhaustOnly(duration: ScheduleDuration): Promise<void> {
+        await this.setBalanceOverride(ScheduleSubunit.EXHAUST_ONLY, ScheduleSubunit.SUPPLY_ONLY, duration);
+    }
+
+    /**
+     * Ends a supply-only or exhaust-only override, both fans run balanced again.
+     */
+    public async resetBalance(): Promise<void> {
+        await this.executeRmi(new DisableScheduleEntryMessage(ScheduleSubunit.SUPPLY_ONLY, ScheduleEntryType.MANUAL));
+        await this.executeRmi(new DisableScheduleEntryMessage(ScheduleSubunit.EXHAUST_ONLY, ScheduleEntryType.MANUAL));
+    }
+
+    /**
+     * Reads whether both fans are running or only the supply or exhaust fan, as reported by
+     * {@link ComfoAirProperties.SUPPLY_FAN_MODE} and {@link ComfoAirProperties.EXHAUST_FAN_MODE}.
+     * @returns {Promise<BalanceMode>} A promise that resolves to the current balance mode.
+     */
+    public async getBalanceMode(): Promise<BalanceMode> {
+        if (await this.readPropertyValue(ComfoAirProperties.SUPPLY_FAN_MODE)) {
+            return BalanceMode.SupplyOnly;
+        }
+        if (await this.readPropertyValue(ComfoAirProperties.EXHAUST_FAN_MODE)) {
+            return BalanceMode.ExhaustOnly;
+        }
+        return BalanceMode.Balanced;
+    }
+
+    private async setBalanceOverride(enable: ScheduleSubunit, disable: ScheduleSubunit, duration: ScheduleDuration) {
+        const durationSeconds =
+            duration === 'indefinite' ? SCHEDULE_DURATION_INDEFINITE : ComfoControlClient.validateDuration(duration);
+        // Disable the opposite override first; both fans would be off while both overrides are active
+        await this.executeRmi(new DisableScheduleEntryMessage(disable, ScheduleEntryType.MANUAL));
+        await this.executeRmi(
+            new EnableScheduleEntryMessage(enable, ScheduleEntryType.MANUAL, { duration: durationSeconds, value: 1 }),
+        );
+    }
+
+    private static validateDuration(durationSeconds: number): number {
+        if (
+            !Number.isInteger(durationSeconds) ||
+            durationSeconds <= 0 ||
+            durationSeconds >= SCHEDULE_DURATION_INDEFINITE
+        ) {
+            throw new InvalidArgumentError(
+                `Invalid duration: ${durationSeconds}; expected a positive number of seconds`,
+            );
+        }
+        return durationSeconds;
+    }
+
+    /**
+     * Enables or disables bypass of the heat exchanger for the ventilation unit when true or
      * resets the bypass to automatic mode when false.
-     * @param bypassEnabled True to enable bypass, false to set to automatic mode.
+     * @param bypassEnabled True to open the bypass for an hour, false to set to automatic mode.
+     * @deprecated Use {@link setBypass} instead.
      */
     public enableBypass(bypassEnabled: boolean): Promise<void> {
-        if (bypassEnabled === true) {
-            return this.executeRmiCommand(
-                0x84, 0x15, 2, 1,
-                0, 0, 0, 0,
-                0x10, 0x0e, 0, 0, 1
-            );
+        return bypassEnabled === true ? this.setBypass('open', { durationSeconds: 3600 }) : this.setBypass('auto');
+    }
+
+    /**
+     * Forces the bypass of the heat exchanger open or closed, or returns it to automatic mode.
+     *
+     * @example
+     * ```typescript
+     * // Cool the house with outdoor air for the next 8 hours
+     * await client.setBypass('open', { durationSeconds: 8 * 3600 });
+     * ```
+     *
+     * @param mode `'open'` or `'closed'` to force the bypass, `'auto'` to let the unit control the bypass.
+     * @param options Optionally the duration after which the bypass returns to automatic mode.
+     */
+    public async setBypass(mode: 'auto' | 'open' | 'closed', options?: BypassOptions): Promise<void> {
+        if (mode === 'auto') {
+            return this.executeRmi(new DisableScheduleEntryMessage(ScheduleSubunit.BYPASS, ScheduleEntryType.MANUAL));
+        }
+        if (mode !== 'open' && mode !== 'closed') {
+            throw new InvalidArgumentError(`Invalid bypass mode: ${mode}`);
         }
-        return this.executeRmiCommand(
-            0x84, 0x15, 2, 1
-        );        
+        const duration =
+            options?.durationSeconds === undefined
+                ? SCHEDULE_DURATION_INDEFINITE
+                : ComfoControlClient.validateDuration(options.durationSeconds);
+        return this.executeRmi(
+            new EnableScheduleEntryMessage(ScheduleSubunit.BYPASS, ScheduleEntryType.MANUAL, {
+                duration,
+                value: mode === 'open' ? BypassActivationMode.Open : BypassActivationMode.Closed,
+            }),
+        );
+    }
+
+    /**
+     * Reads the activation mode and the position of the bypass from {@link ComfoAirProperties.BYPASS_ACTIVATION_MODE}
+     * and {@link ComfoAirProperties.BYPASS_STATE}.
+     * @returns {Promise<BypassStatus>} A promise that resolves to the status of the bypass.
+     */
+    public async getBypassStatus(): Promise<BypassStatus> {
+        const mode: BypassActivationMode = await this.readPropertyValue(ComfoAirProperties.BYPASS_ACTIVATION_MODE);
+        const position = await this.readPropertyValue(ComfoAirProperties.BYPASS_STATE);
+        return { mode, state: decodeBypassState(position), position };
     }
 
     /**
      * Set the temperature profile for the ventilation unit.
      * @param profile The temperature profile to set.
      */
-    public setTempratureProfile(profile: TemperatureProfile): Promise<void> {
+    public async setTempratureProfile(profile: TemperatureProfile): Promise<void> {
         if (TemperatureProfile[profile] === undefined) {
-            throw new Error(`Invalid temperature profile: ${profile}`);
+            throw new InvalidArgumentError(`Invalid temperature profile: ${profile}`);
         }
-        return this.executeRmiCommand(
-            0x84, 0x15, 3, 1,
-            0, 0, 0, 0,
-            0xff, 0xff, 0xff, 0xff, profile
+        return this.executeRmi(
+            new EnableScheduleEntryMessage(ScheduleSubunit.TEMPERATURE_PROFILE, ScheduleEntryType.MANUAL, {
+                duration: SCHEDULE_DURATION_INDEFINITE,
+                value: profile,
+            }),
         );
     }
 
     /**
-     * Sets the operating mode of the ventilation unit.
+     * Sets the operating mode of the ventilation unit. The resulting state is reported by
+     * {@link ComfoAirProperties.OPERATING_MODE_49} as an {@link OperatingModeState}.
      * @param mode The operating mode to set.
      */
-    public setOperatingMode(mode: OperationMode): Promise<void> {
+    public async setOperatingMode(mode: OperationMode): Promise<void> {
         switch (mode) {
             case OperationMode.Auto:
-                return this.executeRmiCommand(
-                    0x84, 0x15, 8, 0
+                // Disabling the manual override reverts the unit to its schedule
+                return this.executeRmi(
+                    new DisableScheduleEntryMessage(ScheduleSubunit.OPERATING_MODE, ScheduleEntryType.MANUAL),
                 );
             case OperationMode.Manual:
-                return this.executeRmiCommand(
-                    0x84, 0x15, 8, 1,
-                    0, 0, 0, 0,
-                    1, 0, 0, 0, 1
+                return this.executeRmi(
+                    new EnableScheduleEntryMessage(ScheduleSubunit.OPERATING_MODE, ScheduleEntryType.MANUAL, {
+                        duration: 1,
+                        value: OperationMode.Manual,
+                    }),
                 );
             default:
-                throw new Error(`Invalid operation mode: ${mode}`);
+                throw new InvalidArgumentError(`Invalid operation mode: ${mode}`);
         }
     }
 
+    /**
+     * Executes an RMI command and decodes the response, see {@link RmiMessage} for the available commands.
+     * The command is sent to the node the message targets, which defaults to the ventilation unit.
+     *
+     * @example
+     * ```typescript
+     * await client.executeRmi(new DisableScheduleEntryMessage(1, 6, NodeTypes.VENTILATION_UNIT));
+     * ```
+     *
+     * @param message The RMI command to execute.
+     * @returns A promise that resolves to the decoded response of the command.
+     * @throws {RmiError} If the node rejects the command.
+     */
+    public async executeRmi<T>(message: RmiMessage<T>): Promise<T> {
+        return message.decode(await this.sendRmiRequest(message.target, message.encode(), message.action));
+    }
+
+    /**
+     * Executes a raw RMI command on the ventilation unit. Prefer {@link executeRmi} with a typed {@link RmiMessage}.
+     * @param bytes The bytes of the RMI command; the second and third byte are the unit and subunit.
+     * @throws {RmiError} If the ventilation unit rejects the command.
+     */
     public async executeRmiCommand(...bytes: number[]): Promise<void> {
-        const message = Buffer.from(bytes);
+        await this.sendRmiRequest({ node: 1, unit: bytes[1], subunit: bytes[2] }, Buffer.from(bytes));
+    }
 
-        const response = await this.send(Opcode.CN_RMI_REQUEST, { nodeId: 1, message });
-        const responseMessage = response.deserialize();
+    /**
+     * Executes an RMI command asynchronously with CN_RMI_ASYNC_REQUEST. Use this for long-running commands that would
+     * otherwise block the synchronous RMI request path of the gateway.
+     *
+     * The returned promise resolves as soon as the gateway confirms the request; the {@link RmiAsyncOperation.response}
+     * promise resolves when the matching CN_RMI_ASYNC_RESPONSE arrives.
+     *
+     * @example
+     * ```typescript
+     * const operation = await client.executeRmiAsync(1, Buffer.from([0x01, 0x01, 0x01, 0x10, 0x04]));
+     * const response = await operation.response;
+     * ```
+     *
+     * @param nodeId The ID of the node to send the command to.
+     * @param message The bytes of the RMI command; the second and third byte are the unit and subunit.
+     * @param options Options for waiting on the async response.
+     * @returns {Promise<RmiAsyncOperation>} A promise that resolves when the gateway confirmed the request.
+     * @throws {RmiError} If the node rejects the request.
+     */
+    public async executeRmiAsync(
+        nodeId: number,
+        message: Buffer | number[],
+        options?: RmiAsyncOptions,
+    ): Promise<RmiAsyncOperation> {
+        const bytes = Buffer.from(message);
+        const target: RmiTarget = { node: nodeId, unit: bytes[1], subunit: bytes[2] };
+        const confirm = await this.send(Opcode.CN_RMI_ASYNC_REQUEST, { nodeId, message: bytes });
+        const pendingResponse = this.pendingAsyncResponses[confirm.id];
+
+        const confirmMessage = confirm.deserialize();
+        if (confirmMessage.result !== ErrorCodes.NO_ERROR) {
+            delete this.pendingAsyncResponses[confirm.id];
+            throw new RmiError(confirmMessage.result, target, 'execute async command');
+        }
+
+        const responseTimeout = options?.responseTimeout ?? this.options.requestTimeout ?? 15000;
+        const response = timeout(
+            pendingResponse.then((response: ComfoControlMessage<Opcode.CN_RMI_ASYNC_RESPONSE>) => {
+                const responseMessage = response.deserialize();
+                if (response.resultCode !== Result.OK || responseMessage.result !== ErrorCodes.NO_ERROR) {
+                    throw new RmiError(
+                        responseMessage.result || ErrorCodes.INTERNAL_ERROR,
+                        target,
+                        'execute async command',
+                    );
+                }
+                return Buffer.from(responseMessage.message);
+            }),
+            responseTimeout,
+            () => {
+                delete this.pendingAsyncResponses[confirm.id];
+                return new RequestTimeoutError(Opcode.CN_RMI_ASYNC_REQUEST, responseTimeout);
+            },
+        );
+        // Callers that only await the confirm must not cause an unhandled rejection when the response fails
+        response.catch(() => {});
 
+        return { id: confirm.id, response };
+    }
+
+    /**
+     * Sends an RMI request to a node and returns the response payload.
+     * Translates both gateway `RMI_ERROR` results and error codes in the RMI response into an {@link RmiError}.
+     */
+    private async sendRmiRequest(target: RmiTarget, message: Buffer, action?: string): Promise<Buffer> {
+        let response: ComfoControlMessage<Opcode.CN_RMI_RESPONSE>;
+        try {
+            response = await this.send(Opcode.CN_RMI_REQUEST, { nodeId: target.node, message });
+        } catch (err) {
+            if (err instanceof GatewayResultError && err.result === Result.RMI_ERROR && err.response) {
+                const errorCode = err.response.deserialize<Opcode.CN_RMI_RESPONSE>().result;
+                throw new RmiError(errorCode || ErrorCodes.INTERNAL_ERROR, target, action);
+            }
+            throw err;
+        }
+
+        const responseMessage = response.deserialize();
         if (responseMessage.result !== ErrorCodes.NO_ERROR) {
-            throw new Error(
-                `Failed to execute command: ${ErrorCodes[responseMessage.result] ?? 'UNKNOWN'} (${responseMessage.result})`,
-            );
+            throw new RmiError(responseMessage.result, target, action);
         }
+
+        return Buffer.from(responseMessage.message);
     }
 }
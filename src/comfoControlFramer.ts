@@ -0,0 +1,58 @@
+import { COMFO_MESSAGE_HEADER_LENGTH, ComfoControlHeader } from './comfoControlHeader';
+
+/**
+ * Reassembles complete ComfoControl frames from a TCP byte stream.
+ *
+ * A single `data` event from the socket can contain a partial frame, exactly one frame or multiple coalesced frames.
+ * The framer buffers the received bytes and uses the 4-byte length prefix of the {@link ComfoControlHeader} to cut the
+ * stream into complete frames; any leftover bytes are carried over into the next chunk.
+ */
+export class ComfoControlFramer {
+    private buffer: Buffer = Buffer.alloc(0);
+
+    /**
+     * The number of bytes that are buffered but do not yet form a complete frame.
+     */
+    public get pendingBytes() {
+        return this.buffer.length;
+    }
+
+    /**
+     * Append a chunk of data received from the stream and return all frames that are complete.
+     * @param data The chunk of data received from the stream.
+     * @returns An array with the complete frames, each frame includes the header.
+     * @throws Will throw an error if the stream contains a frame with an invalid length; the buffer is cleared in that case.
+     */
+    public push(data: Buffer): Buffer[] {
+        this.buffer = this.buffer.length ? Buffer.concat([this.buffer, data]) : data;
+
+        const frames: Buffer[] = [];
+        let offset = 0;
+
+        while (this.buffer.length - offset >= COMFO_MESSAGE_HEADER_LENGTH) {
+            const header = ComfoControlHeader.fromBinary(this.buffer, offset);
+            if (header.messageLength < 0) {
+                this.reset();
+                throw new Error(
+                    `Invalid frame length; frame of ${header.length} bytes cannot hold an operation of ${header.opLength} bytes`,
+                );
+            }
+            if (this.buffer.length - offset < header.length) {
+                break;
+            }
+            frames.push(this.buffer.subarray(offset, offset + header.length));
+            offset += header.length;
+        }
+
+        // Copy the leftover bytes so the frames handed out do not share memory with the next chunk
+        this.buffer = Buffer.from(this.buffer.subarray(offset));
+        return frames;
+    }
+
+    /**
+     * Discard all buffered bytes, for example when the underlying connection is closed.
+     */
+    public reset() {
+        this.buffer = Buffer.alloc(0);
+    }
+}
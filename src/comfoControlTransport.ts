@@ -6,6 +6,8 @@ import { Opcode, GatewayOperation } from './protocol/comfoConnect';
 import { OpcodeMessageType, opcodes } from './opcodes';
 import { CLIENT_UUID, GATEWAY_PORT } from './consts';
 import { ComfoControlHeader } from './comfoControlHeader';
+import { ComfoControlFramer } from './comfoControlFramer';
+import { ConnectionError, InvalidArgumentError } from './errors';
 
 export interface ComfoControlTransportOptions {
     /**
@@ -56,6 +58,7 @@ export class ComfoControlTransport extends EventEmitter<{
     private keepAlive: number;
     private state: ConnectionState = ConnectionState.DISCONNECTED;
     private keepAliveHandle: NodeJS.Timeout | null = null;
+    private framer = new ComfoControlFramer();
 
     public get isConnected() {
         return this.state === ConnectionState.CONNECTED;
@@ -75,10 +78,10 @@ export class ComfoControlTransport extends EventEmitter<{
     ) {
         super();
         if (options.clientUuid && options.clientUuid.length > 32) {
-            throw new Error('Client ID too long, must be a 32 characters hex string');
+            throw new InvalidArgumentError('Client ID too long, must be a 32 characters hex string');
         }
         if (!options.uuid) {
-            throw new Error('ComfoControl Server UUID is required to start the connection');
+            throw new InvalidArgumentError('ComfoControl Server UUID is required to start the connection');
         }
         this.clientUuid = options.clientUuid ?? CLIENT_UUID;
         this.keepAlive = Math.max(options.keepAliveInterval ?? 30000, 5000);
@@ -90,7 +93,7 @@ export class ComfoControlTransport extends EventEmitter<{
 
     public async connect(): Promise<this> {
         if (this.state !== ConnectionState.DISCONNECTED) {
-            throw new Error('Cannot connect a transport that is already connected or connecting');
+            throw new ConnectionError('Cannot connect a transport that is already connected or connecting');
         }
         this.state = ConnectionState.CONNECTING;
         return new Promise((resolve, reject) => {
@@ -100,7 +103,9 @@ export class ComfoControlTransport extends EventEmitter<{
                 this.logger.error('Error connecting transport:', err);
                 this.state = ConnectionState.DISCONNECTED;
                 this.socket = null;
-                reject(err);
+                reject(
+                    new ConnectionError(`Failed to connect to ${this.options.address}: ${err.message}`, { cause: err }),
+                );
             };
 
             const onConnectSuccess = () => {
@@ -136,7 +141,7 @@ export class ComfoControlTransport extends EventEmitter<{
 
     public send<T extends keyof typeof opcodes>(opcode: T, data: OpcodeMessageType<T>): Promise<number> {
         if (this.state !== ConnectionState.CONNECTED || this.socket === null) {
-            throw new Error(
+            throw new ConnectionError(
                 'Cannot send data on a disconnected socket; connect the transport first before calling send',
             );
         }
@@ -179,16 +184,26 @@ export class ComfoControlTransport extends EventEmitter<{
     private onSocketData(data: Buffer): void {
         this.logger.debug('Recv >>', () => data.toString('hex'));
 
+        let frames: Buffer[];
         try {
-            const messages = ComfoControlMessage.fromBinary(data);
-            messages.forEach((message) => {
-                this.logger.verbose(`Recv ${message.opcodeName} (${message.id}) >>`, () =>
-                    JSON.stringify(message.deserialize()),
-                );
-                this.emit('message', message);
-            });
+            frames = this.framer.push(data);
         } catch (err) {
-            this.logger.error('Error processing message:', err);
+            this.logger.error('Error reading frame, discarding buffered data:', err);
+            return;
+        }
+
+        for (const frame of frames) {
+            try {
+                const messages = ComfoControlMessage.fromBinary(frame);
+                messages.forEach((message) => {
+                    this.logger.verbose(`Recv ${message.opcodeName} (${message.id}) >>`, () =>
+                        JSON.stringify(message.deserialize()),
+                    );
+                    this.emit('message', message);
+                });
+            } catch (err) {
+                this.logger.error('Error processing message:', err);
+            }
         }
     }
 
@@ -199,6 +214,7 @@ export class ComfoControlTransport extends EventEmitter<{
         }
         this.state = ConnectionState.DISCONNECTED;
         this.socket = null;
+        this.framer.reset();
         this.emit('disconnect');
     }
 
@@ -1,3 +1,5 @@
+import { CnNodeNotification_NodeModeType } from './protocol/comfoConnect';
+
 /**
  * Default ComfoAir Client UUID used by the App.
  */
@@ -67,3 +69,9 @@ export enum NodeProductType {
      */
     DVTTool = 10,
 }
+
+/**
+ * Enum representing the mode a ComfoNet node reports, for example when it went offline or is being updated.
+ */
+export const NodeModeType = CnNodeNotification_NodeModeType;
+export type NodeModeType = CnNodeNotification_NodeModeType;
@@ -1,3 +1,5 @@
+import { decodeCnTime, encodeCnTime } from './cnTime';
+
 /**
  * Enum representing different data types.
  */
@@ -11,7 +13,7 @@ export enum PropertyDataType {
     CN_INT32 = 7 /** CN_INT16: `3412` = 1234 */,
     CN_INT64 = 8 /** CN_INT64 */,
     CN_STRING = 9 /** CN_STRING */,
-    CN_TIME = 10 /** CN_TIME */,
+    CN_TIME = 10 /** CN_TIME: seconds since 2000-01-01 in local time, `7856 3412` = 2009-09-04T22:51:36 */,
     CN_VERSION = 11 /** CN_VERSION */,
 }
 
@@ -26,7 +28,7 @@ const PropertyDataTypeParsers = {
     [PropertyDataType.CN_INT32]: (data: Buffer) => data.readInt32LE(),
     [PropertyDataType.CN_INT64]: (data: Buffer) => data.readBigInt64LE(),
     [PropertyDataType.CN_STRING]: (data: Buffer) => data.toString('utf8'),
-    [PropertyDataType.CN_TIME]: (data: Buffer) => data.readUInt32LE(),
+    [PropertyDataType.CN_TIME]: (data: Buffer) => decodeCnTime(data.readUInt32LE()),
     [PropertyDataType.CN_VERSION]: (data: Buffer) => data.toString('utf8'),
 } as const;
 
@@ -46,15 +48,157 @@ const PropertyDataTypeSerializers = {
         return buf;
     },
     [PropertyDataType.CN_STRING]: (data: string) => Buffer.from(data, 'utf8'),
-    [PropertyDataType.CN_TIME]: (data: number) =>
-        Buffer.from([data & 0xff, (data >> 8) & 0xff, (data >> 16) & 0xff, (data >> 24) & 0xff]),
+    [PropertyDataType.CN_TIME]: (data: Date) => {
+        const buf = Buffer.alloc(4, 0);
+        buf.writeUInt32LE(encodeCnTime(data));
+        return buf;
+    },
     [PropertyDataType.CN_VERSION]: (data: string) => Buffer.from(data, 'utf8'),
 } as const;
 
+// Size in bytes of the fixed-size property data types; strings and versions are null-terminated.
+const PropertyDataTypeSizes: Partial<Record<PropertyDataType, number>> = {
+    [PropertyDataType.CN_BOOL]: 1,
+    [PropertyDataType.CN_UINT8]: 1,
+    [PropertyDataType.CN_UINT16]: 2,
+    [PropertyDataType.CN_UINT32]: 4,
+    [PropertyDataType.CN_INT8]: 1,
+    [PropertyDataType.CN_INT16]: 2,
+    [PropertyDataType.CN_INT32]: 4,
+    [PropertyDataType.CN_INT64]: 8,
+    [PropertyDataType.CN_TIME]: 4,
+};
+
+/**
+ * Decoded value of {@link ComfoAirProperties.FAN_SPEED_SETTING}.
+ */
+export enum FanMode {
+    Away = 0,
+    Low = 1,
+    Medium = 2,
+    High = 3,
+}
+
+/**
+ * Decoded value of {@link ComfoAirProperties.TEMPERATURE_PROFILE}.
+ */
+export enum TemperatureProfile {
+    Normal = 0,
+    Cool = 1,
+    Warm = 2,
+}
+
+/**
+ * Decoded value of {@link ComfoAirProperties.OPERATING_MODE_49} and {@link ComfoAirProperties.OPERATING_MODE_56}.
+ * This is the state reported by the unit; to change the mode, pass an `OperationMode` to
+ * `ComfoControlClient.setOperatingMode`.
+ */
+export enum OperatingModeState {
+    /** The unit follows its schedule. */
+    Auto = 0xff,
+    /** The fan speed was set manually and reverts to the schedule after a timeout. */
+    LimitedManual = 0x01,
+    /** The fan speed was set manually and stays until it is changed. */
+    UnlimitedManual = 0x05,
+}
+
+/**
+ * Decoded value of {@link ComfoAirProperties.AWAY_INDICATOR}.
+ */
+export enum AwayIndicator {
+    /** The fans run at low, medium or high speed. */
+    Present = 0x01,
+    /** The fans run at away speed. */
+    Away = 0x07,
+}
+
+/**
+ * Decoded value of {@link ComfoAirProperties.BYPASS_ACTIVATION_MODE}.
+ */
+export enum BypassActivationMode {
+    /** The unit opens and closes the bypass automatically. */
+    Auto = 0,
+    /** The bypass is forced open. */
+    Open = 1,
+    /** The bypass is forced closed. */
+    Closed = 2,
+}
+
+/**
+ * Decoded value of {@link ComfoAirProperties.BYPASS_STATE}, see {@link decodeBypassState}.
+ */
+export enum BypassState {
+    /** All air passes through the heat exchanger. */
+    Closed = 0,
+    /** Part of the air bypasses the heat exchanger. */
+    PartiallyOpen = 1,
+    /** All air bypasses the heat exchanger. */
+    Open = 2,
+}
+
 export interface DeviceProperty {
     readonly propertyId: number;
     readonly dataType: PropertyDataType;
     readonly convert?: (v: DeriveNativeDataType<this['dataType']>) => DeriveNativeDataType<this['dataType']>;
+    readonly enumValues?: EnumMapping;
+    /**
+     * The physical unit of the (converted) value, such as `°C`, `m³/h`, `%` or `days`.
+     */
+    readonly physicalUnit?: string;
+    readonly description?: string;
+    readonly category?: PropertyCategory;
+    /**
+     * The optional device that must be attached to the ventilation unit for the property to report values.
+     */
+    readonly requires?: PropertyRequirement;
+}
+
+/**
+ * Groups the properties in {@link ComfoAirProperties} by the part of the ventilation unit they describe.
+ */
+export enum PropertyCategory {
+    General = 'general',
+    Fans = 'fans',
+    Bypass = 'bypass',
+    Power = 'power',
+    Preheater = 'preheater',
+    Filter = 'filter',
+    Temperature = 'temperature',
+    Humidity = 'humidity',
+    FrostProtection = 'frostProtection',
+    AnalogInput = 'analogInput',
+    ComfoCool = 'comfoCool',
+    PostHeater = 'postHeater',
+}
+
+/**
+ * Optional devices that properties in {@link ComfoAirProperties} depend on.
+ */
+export enum PropertyRequirement {
+    Preheater = 'preheater',
+    PostHeater = 'postHeater',
+    ComfoCool = 'comfoCool',
+}
+
+/**
+ * Maps the raw values of an enumerated property to the members of an enum.
+ * Raw values that are not in the mapping are passed through unchanged.
+ */
+export type EnumMapping<E extends number = number> = Readonly<Record<number, E>>;
+
+/**
+ * Creates an {@link EnumMapping} for an enum whose members have the raw values of the property.
+ * @param enumObject The enum to map to.
+ * @returns The mapping from each raw value to the enum member with the same value.
+ */
+export function enumMapping<T extends Record<string, string | number>>(
+    enumObject: T,
+): EnumMapping<T[keyof T] & number> {
+    return Object.fromEntries(
+        Object.values(enumObject)
+            .filter((value) => typeof value === 'number')
+            .map((value) => [value, value]),
+    ) as EnumMapping<T[keyof T] & number>;
 }
 
 // Generic type for the property data from the parsers
@@ -63,105 +207,531 @@ type DeriveNativeDataType<T extends PropertyDataType> = (typeof PropertyDataType
 ) => infer R
     ? R
     : never;
-export type PropertyNativeType<T extends { dataType: PropertyDataType }> = DeriveNativeDataType<T['dataType']>;
+export type PropertyNativeType<T extends { dataType: PropertyDataType }> = T extends {
+    enumValues: EnumMapping<infer E>;
+}
+    ? E
+    : DeriveNativeDataType<T['dataType']>;
 export type ComfoAirPropertyType<P extends keyof typeof ComfoAirProperties> = PropertyNativeType<
     (typeof ComfoAirProperties)[P]
 >;
 
 /**
- * Object representing different properties with their propertyId and dataType.
+ * Object representing different properties with their propertyId and dataType, and the physical unit, description,
+ * category and required device of each property. The catalog is not complete: PDOs without a documented propertyId
+ * and data type, such as the preheater state, are not listed.
  */
 export const ComfoAirProperties = {
-    /** Away indicator (`01` = low, medium, high fan speed, `07` = away) */
-    AWAY_INDICATOR: { propertyId: 16, dataType: PropertyDataType.CN_UINT8 },
-    /** Operating mode (`01` = limited manual, `05` = unlimited manual, `ff` = auto) */
-    OPERATING_MODE_49: { propertyId: 49, dataType: PropertyDataType.CN_UINT8 },
-    /** Operating mode (`01` = unlimited manual, `ff` = auto) */
-    OPERATING_MODE_56: { propertyId: 56, dataType: PropertyDataType.CN_UINT8 },
-    /** Fans: Fan speed setting (`00` (away), `01`, `02` or `03`) */
-    FAN_SPEED_SETTING: { propertyId: 65, dataType: PropertyDataType.CN_UINT8 },
-    /** Bypass activation mode (`00` = auto, `01` = activated, `02` = deactivated) */
-    BYPASS_ACTIVATION_MODE: { propertyId: 66, dataType: PropertyDataType.CN_UINT8 },
-    /** Temperature Profile (`00` = normal, `01` = cold, `02` = warm) */
-    TEMPERATURE_PROFILE: { propertyId: 67, dataType: PropertyDataType.CN_UINT8 },
+    /** Away indicator (`01` = low, medium, high fan speed, `07` = away), see {@link AwayIndicator} */
+    AWAY_INDICATOR: {
+        propertyId: 16,
+        dataType: PropertyDataType.CN_UINT8,
+        enumValues: enumMapping(AwayIndicator),
+        description: 'Whether the unit runs at away speed',
+        category: PropertyCategory.General,
+    },
+    /** Operating mode (`01` = limited manual, `05` = unlimited manual, `ff` = auto), see {@link OperatingModeState} */
+    OPERATING_MODE_49: {
+        propertyId: 49,
+        dataType: PropertyDataType.CN_UINT8,
+        enumValues: enumMapping(OperatingModeState),
+        description: 'Operating mode of the unit',
+        category: PropertyCategory.General,
+    },
+    /** Operating mode (`01` = unlimited manual, `ff` = auto), see {@link OperatingModeState} */
+    OPERATING_MODE_56: {
+        propertyId: 56,
+        dataType: PropertyDataType.CN_UINT8,
+        enumValues: { 0x01: OperatingModeState.UnlimitedManual, 0xff: OperatingModeState.Auto },
+        description: 'Operating mode of the unit',
+        category: PropertyCategory.General,
+    },
+    /** Fans: Fan speed setting (`00` (away), `01`, `02` or `03`), see {@link FanMode} */
+    FAN_SPEED_SETTING: {
+        propertyId: 65,
+        dataType: PropertyDataType.CN_UINT8,
+        enumValues: enumMapping(FanMode),
+        description: 'Fan speed setting',
+        category: PropertyCategory.Fans,
+    },
+    /** Bypass activation mode (`00` = auto, `01` = activated, `02` = deactivated), see {@link BypassActivationMode} */
+    BYPASS_ACTIVATION_MODE: {
+        propertyId: 66,
+        dataType: PropertyDataType.CN_UINT8,
+        enumValues: enumMapping(BypassActivationMode),
+        description: 'Bypass activation mode',
+        category: PropertyCategory.Bypass,
+    },
+    /** Temperature Profile (`00` = normal, `01` = cold, `02` = warm), see {@link TemperatureProfile} */
+    TEMPERATURE_PROFILE: {
+        propertyId: 67,
+        dataType: PropertyDataType.CN_UINT8,
+        enumValues: enumMapping(TemperatureProfile),
+        description: 'Temperature profile',
+        category: PropertyCategory.Temperature,
+    },
+    /** Supply fan mode (`00` = balanced, `01` = supply only) */
+    SUPPLY_FAN_MODE: {
+        propertyId: 70,
+        dataType: PropertyDataType.CN_UINT8,
+        description: 'Whether only the supply fan runs',
+        category: PropertyCategory.Fans,
+    },
+    /** Exhaust fan mode (`00` = balanced, `01` = exhaust only) */
+    EXHAUST_FAN_MODE: {
+        propertyId: 71,
+        dataType: PropertyDataType.CN_UINT8,
+        description: 'Whether only the exhaust fan runs',
+        category: PropertyCategory.Fans,
+    },
     /** General: Countdown until next fan speed change (`52020000` = 00000252 -> 594 seconds) */
-    COUNTDOWN_NEXT_FAN_SPEED_CHANGE: { propertyId: 81, dataType: PropertyDataType.CN_UINT32 },
+    COUNTDOWN_NEXT_FAN_SPEED_CHANGE: {
+        propertyId: 81,
+        dataType: PropertyDataType.CN_UINT32,
+        physicalUnit: 's',
+        description: 'Time until the fan speed changes',
+        category: PropertyCategory.Fans,
+    },
+    /** General: Countdown until the next bypass change (`52020000` = 594 seconds) */
+    COUNTDOWN_NEXT_BYPASS_CHANGE: {
+        propertyId: 82,
+        dataType: PropertyDataType.CN_UINT32,
+        physicalUnit: 's',
+        description: 'Time until the bypass activation mode changes',
+        category: PropertyCategory.Bypass,
+    },
+    /** General: Countdown until the supply fan mode changes (`52020000` = 594 seconds) */
+    COUNTDOWN_NEXT_SUPPLY_FAN_MODE_CHANGE: {
+        propertyId: 86,
+        dataType: PropertyDataType.CN_UINT32,
+        physicalUnit: 's',
+        description: 'Time until only the supply fan runs or stops running',
+        category: PropertyCategory.Fans,
+    },
+    /** General: Countdown until the exhaust fan mode changes (`52020000` = 594 seconds) */
+    COUNTDOWN_NEXT_EXHAUST_FAN_MODE_CHANGE: {
+        propertyId: 87,
+        dataType: PropertyDataType.CN_UINT32,
+        physicalUnit: 's',
+        description: 'Time until only the exhaust fan runs or stops running',
+        category: PropertyCategory.Fans,
+    },
     /** Fans: Exhaust fan duty (`1c` = 28%) */
-    EXHAUST_FAN_DUTY: { propertyId: 117, dataType: PropertyDataType.CN_UINT8 },
+    EXHAUST_FAN_DUTY: {
+        propertyId: 117,
+        dataType: PropertyDataType.CN_UINT8,
+        physicalUnit: '%',
+        description: 'Duty cycle of the exhaust fan',
+        category: PropertyCategory.Fans,
+    },
     /** Fans: Supply fan duty (`1d` = 29%) */
-    SUPPLY_FAN_DUTY: { propertyId: 118, dataType: PropertyDataType.CN_UINT8 },
+    SUPPLY_FAN_DUTY: {
+        propertyId: 118,
+        dataType: PropertyDataType.CN_UINT8,
+        physicalUnit: '%',
+        description: 'Duty cycle of the supply fan',
+        category: PropertyCategory.Fans,
+    },
     /** Fans: Exhaust fan flow (`6e00` = 110 m³/h) */
-    EXHAUST_FAN_FLOW: { propertyId: 119, dataType: PropertyDataType.CN_UINT16 },
+    EXHAUST_FAN_FLOW: {
+        propertyId: 119,
+        dataType: PropertyDataType.CN_UINT16,
+        physicalUnit: 'm³/h',
+        description: 'Air flow of the exhaust fan',
+        category: PropertyCategory.Fans,
+    },
     /** Fans: Supply fan flow (`6900` = 105 m³/h) */
-    SUPPLY_FAN_FLOW: { propertyId: 120, dataType: PropertyDataType.CN_UINT16 },
+    SUPPLY_FAN_FLOW: {
+        propertyId: 120,
+        dataType: PropertyDataType.CN_UINT16,
+        physicalUnit: 'm³/h',
+        description: 'Air flow of the supply fan',
+        category: PropertyCategory.Fans,
+    },
     /** Fans: Exhaust fan speed (`2d04` = 1069 rpm) */
-    EXHAUST_FAN_SPEED: { propertyId: 121, dataType: PropertyDataType.CN_UINT16 },
+    EXHAUST_FAN_SPEED: {
+        propertyId: 121,
+        dataType: PropertyDataType.CN_UINT16,
+        physicalUnit: 'rpm',
+        description: 'Speed of the exhaust fan',
+        category: PropertyCategory.Fans,
+    },
     /** Fans: Supply fan speed (`5904` = 1113 rpm) */
-    SUPPLY_FAN_SPEED: { propertyId: 122, dataType: PropertyDataType.CN_UINT16 },
+    SUPPLY_FAN_SPEED: {
+        propertyId: 122,
+        dataType: PropertyDataType.CN_UINT16,
+        physicalUnit: 'rpm',
+        description: 'Speed of the supply fan',
+        category: PropertyCategory.Fans,
+    },
     /** Power Consumption: Current Ventilation (`0f00` = 15 W) */
-    CURRENT_VENTILATION_POWER_CONSUMPTION: { propertyId: 128, dataType: PropertyDataType.CN_UINT16 },
+    CURRENT_VENTILATION_POWER_CONSUMPTION: {
+        propertyId: 128,
+        dataType: PropertyDataType.CN_UINT16,
+        physicalUnit: 'W',
+        description: 'Current power consumption of the ventilation',
+        category: PropertyCategory.Power,
+    },
     /** Power Consumption: Total year-to-date (`1700` = 23 kWh) */
-    TOTAL_YEAR_TO_DATE_POWER_CONSUMPTION: { propertyId: 129, dataType: PropertyDataType.CN_UINT16 },
+    TOTAL_YEAR_TO_DATE_POWER_CONSUMPTION: {
+        propertyId: 129,
+        dataType: PropertyDataType.CN_UINT16,
+        physicalUnit: 'kWh',
+        description: 'Energy used by the ventilation this year',
+        category: PropertyCategory.Power,
+    },
     /** Power Consumption: Total from start (`1700` = 23 kWh) */
-    TOTAL_FROM_START_POWER_CONSUMPTION: { propertyId: 130, dataType: PropertyDataType.CN_UINT16 },
+    TOTAL_FROM_START_POWER_CONSUMPTION: {
+        propertyId: 130,
+        dataType: PropertyDataType.CN_UINT16,
+        physicalUnit: 'kWh',
+        description: 'Energy used by the ventilation since the first start',
+        category: PropertyCategory.Power,
+    },
     /** Preheater Power Consumption: Total year-to-date (`1700` = 23 kWh) */
-    PREHEATER_TOTAL_YEAR_TO_DATE_POWER_CONSUMPTION: { propertyId: 144, dataType: PropertyDataType.CN_UINT16 },
+    PREHEATER_TOTAL_YEAR_TO_DATE_POWER_CONSUMPTION: {
+        propertyId: 144,
+        dataType: PropertyDataType.CN_UINT16,
+        physicalUnit: 'kWh',
+        description: 'Energy used by the preheater this year',
+        category: PropertyCategory.Preheater,
+        requires: PropertyRequirement.Preheater,
+    },
     /** Preheater Power Consumption: Total from start (`1700` = 23 kWh) */
-    PREHEATER_TOTAL_FROM_START_POWER_CONSUMPTION: { propertyId: 145, dataType: PropertyDataType.CN_UINT16 },
+    PREHEATER_TOTAL_FROM_START_POWER_CONSUMPTION: {
+        propertyId: 145,
+        dataType: PropertyDataType.CN_UINT16,
+        physicalUnit: 'kWh',
+        description: 'Energy used by the preheater since the first start',
+        category: PropertyCategory.Preheater,
+        requires: PropertyRequirement.Preheater,
+    },
     /** Preheater Power Consumption: Current Ventilation (`0f00` = 15 W) */
-    PREHEATER_CURRENT_VENTILATION_POWER_CONSUMPTION: { propertyId: 146, dataType: PropertyDataType.CN_UINT16 },
+    PREHEATER_CURRENT_VENTILATION_POWER_CONSUMPTION: {
+        propertyId: 146,
+        dataType: PropertyDataType.CN_UINT16,
+        physicalUnit: 'W',
+        description: 'Current power consumption of the preheater',
+        category: PropertyCategory.Preheater,
+        requires: PropertyRequirement.Preheater,
+    },
     /** Days left before filters must be replaced (`8200` = 130 days) */
-    DAYS_LEFT_BEFORE_FILTER_REPLACEMENT: { propertyId: 192, dataType: PropertyDataType.CN_UINT16 },
+    DAYS_LEFT_BEFORE_FILTER_REPLACEMENT: {
+        propertyId: 192,
+        dataType: PropertyDataType.CN_UINT16,
+        physicalUnit: 'days',
+        description: 'Days left before the filters must be replaced',
+        category: PropertyCategory.Filter,
+    },
+    /** Unit of temperature shown on the display (`00` = °C, `01` = °F) */
+    TEMPERATURE_UNIT: {
+        propertyId: 208,
+        dataType: PropertyDataType.CN_UINT8,
+        description: 'Unit of temperature shown on the display',
+        category: PropertyCategory.General,
+    },
     /** Current RMOT (`7500` = 117 -> 11.7 °C) */
-    CURRENT_RMOT: { propertyId: 209, dataType: PropertyDataType.CN_INT16, convert: (v) => v / 10 },
+    CURRENT_RMOT: {
+        propertyId: 209,
+        dataType: PropertyDataType.CN_INT16,
+        convert: (v) => v / 10,
+        physicalUnit: '°C',
+        description: 'Running mean outdoor temperature',
+        category: PropertyCategory.Temperature,
+    },
+    /** Heating season is active (`00` = inactive, `01` = active) */
+    HEATING_SEASON_ACTIVE: {
+        propertyId: 210,
+        dataType: PropertyDataType.CN_BOOL,
+        description: 'Whether the heating season is active',
+        category: PropertyCategory.Temperature,
+    },
+    /** Cooling season is active (`00` = inactive, `01` = active) */
+    COOLING_SEASON_ACTIVE: {
+        propertyId: 211,
+        dataType: PropertyDataType.CN_BOOL,
+        description: 'Whether the cooling season is active',
+        category: PropertyCategory.Temperature,
+    },
     /** Temperature profile target (`ee00` = 23.8 °C) */
-    TEMPERATURE_PROFILE_TARGET: { propertyId: 212, dataType: PropertyDataType.CN_UINT16, convert: (v) => v / 10 },
+    TEMPERATURE_PROFILE_TARGET: {
+        propertyId: 212,
+        dataType: PropertyDataType.CN_UINT16,
+        convert: (v) => v / 10,
+        physicalUnit: '°C',
+        description: 'Target temperature of the temperature profile',
+        category: PropertyCategory.Temperature,
+    },
     /** Avoided Heating: Avoided actual: (`b901` = 441 -> 4.41 W) */
-    AVOIDED_HEATING_ACTUAL: { propertyId: 213, dataType: PropertyDataType.CN_UINT16, convert: (v) => v / 100 },
+    AVOIDED_HEATING_ACTUAL: {
+        propertyId: 213,
+        dataType: PropertyDataType.CN_UINT16,
+        convert: (v) => v / 100,
+        physicalUnit: 'W',
+        description: 'Heating power currently avoided by heat recovery',
+        category: PropertyCategory.Power,
+    },
     /** Avoided Heating: Avoided year-to-date: (`dd01` = 477 kWh) */
-    AVOIDED_HEATING_YEAR_TO_DATE: { propertyId: 214, dataType: PropertyDataType.CN_UINT16 },
+    AVOIDED_HEATING_YEAR_TO_DATE: {
+        propertyId: 214,
+        dataType: PropertyDataType.CN_UINT16,
+        physicalUnit: 'kWh',
+        description: 'Heating energy avoided this year',
+        category: PropertyCategory.Power,
+    },
     /** Avoided Heating: Avoided total: (`dd01` = 477 kWh) */
-    AVOIDED_HEATING_TOTAL: { propertyId: 215, dataType: PropertyDataType.CN_UINT16 },
+    AVOIDED_HEATING_TOTAL: {
+        propertyId: 215,
+        dataType: PropertyDataType.CN_UINT16,
+        physicalUnit: 'kWh',
+        description: 'Heating energy avoided since the first start',
+        category: PropertyCategory.Power,
+    },
     /** Avoided Cooling: Avoided actual: (`b901` = 441 -> 4.41 W) */
-    AVOIDED_COOLING_ACTUAL: { propertyId: 216, dataType: PropertyDataType.CN_UINT16, convert: (v) => v / 100 },
+    AVOIDED_COOLING_ACTUAL: {
+        propertyId: 216,
+        dataType: PropertyDataType.CN_UINT16,
+        convert: (v) => v / 100,
+        physicalUnit: 'W',
+        description: 'Cooling power currently avoided by heat recovery',
+        category: PropertyCategory.Power,
+    },
     /** Avoided Cooling: Avoided year-to-date: (`dd01` = 477 kWh) */
-    AVOIDED_COOLING_YEAR_TO_DATE: { propertyId: 217, dataType: PropertyDataType.CN_UINT16 },
+    AVOIDED_COOLING_YEAR_TO_DATE: {
+        propertyId: 217,
+        dataType: PropertyDataType.CN_UINT16,
+        physicalUnit: 'kWh',
+        description: 'Cooling energy avoided this year',
+        category: PropertyCategory.Power,
+    },
     /** Avoided Cooling: Avoided total: (`dd01` = 477 kWh) */
-    AVOIDED_COOLING_TOTAL: { propertyId: 218, dataType: PropertyDataType.CN_UINT16 },
+    AVOIDED_COOLING_TOTAL: {
+        propertyId: 218,
+        dataType: PropertyDataType.CN_UINT16,
+        physicalUnit: 'kWh',
+        description: 'Cooling energy avoided since the first start',
+        category: PropertyCategory.Power,
+    },
     /** Temperature & Humidity: Supply Air (`aa00` = 170 -> 17.0 °C) PostHeaterTempAfter */
-    SUPPLY_AIR_TEMPERATURE: { propertyId: 221, dataType: PropertyDataType.CN_INT16, convert: (v) => v / 10 },
-    /** Bypass state (`64` = 100%) */
-    BYPASS_STATE: { propertyId: 227, dataType: PropertyDataType.CN_UINT8 },
+    SUPPLY_AIR_TEMPERATURE: {
+        propertyId: 221,
+        dataType: PropertyDataType.CN_INT16,
+        convert: (v) => v / 10,
+        physicalUnit: '°C',
+        description: 'Temperature of the supply air',
+        category: PropertyCategory.Temperature,
+    },
+    /** Unit of air flow shown on the display (`01` = kg/h, `02` = l/s, `03` = m³/h) */
+    AIRFLOW_UNIT: {
+        propertyId: 224,
+        dataType: PropertyDataType.CN_UINT8,
+        description: 'Unit of air flow shown on the display',
+        category: PropertyCategory.General,
+    },
+    /** Comfort temperature state, the temperature control the unit is currently applying */
+    COMFORT_TEMPERATURE_STATE: {
+        propertyId: 225,
+        dataType: PropertyDataType.CN_UINT8,
+        description: 'Current state of the comfort temperature control',
+        category: PropertyCategory.Temperature,
+    },
+    /** Fans: Modulated fan speed, the air flow setpoint relative to the selected fan speed (`6400` = 100%) */
+    FAN_SPEED_MODULATED: {
+        propertyId: 226,
+        dataType: PropertyDataType.CN_UINT16,
+        physicalUnit: '%',
+        description: 'Air flow setpoint relative to the selected fan speed',
+        category: PropertyCategory.Fans,
+    },
+    /** Bypass state (`64` = 100%), see {@link decodeBypassState} */
+    BYPASS_STATE: {
+        propertyId: 227,
+        dataType: PropertyDataType.CN_UINT8,
+        physicalUnit: '%',
+        description: 'Opening of the bypass',
+        category: PropertyCategory.Bypass,
+    },
+    /** Frost protection: Unbalance of the fans to protect the heat exchanger (`64` = 100%) */
+    FROST_PROTECTION_UNBALANCE: {
+        propertyId: 228,
+        dataType: PropertyDataType.CN_UINT8,
+        physicalUnit: '%',
+        description: 'Unbalance applied by the frost protection',
+        category: PropertyCategory.FrostProtection,
+    },
     /** Temperature & Humidity: Extract Air (`ab00` = 171 -> 17.1 °C) */
-    EXTRACT_AIR_TEMPERATURE: { propertyId: 274, dataType: PropertyDataType.CN_INT16, convert: (v) => v / 10 },
+    EXTRACT_AIR_TEMPERATURE: {
+        propertyId: 274,
+        dataType: PropertyDataType.CN_INT16,
+        convert: (v) => v / 10,
+        physicalUnit: '°C',
+        description: 'Temperature of the extract air',
+        category: PropertyCategory.Temperature,
+    },
     /** Temperature & Humidity: Exhaust Air (`5600` = 86 -> 8.6 °C) */
-    EXHAUST_AIR_TEMPERATURE: { propertyId: 275, dataType: PropertyDataType.CN_INT16, convert: (v) => v / 10 },
+    EXHAUST_AIR_TEMPERATURE: {
+        propertyId: 275,
+        dataType: PropertyDataType.CN_INT16,
+        convert: (v) => v / 10,
+        physicalUnit: '°C',
+        description: 'Temperature of the exhaust air',
+        category: PropertyCategory.Temperature,
+    },
     /** Temperature & Humidity: Outdoor Air (`3c00` = 60 -> 6.0 °C) */
-    OUTDOOR_AIR_TEMPERATURE: { propertyId: 276, dataType: PropertyDataType.CN_INT16, convert: (v) => v / 10 },
+    OUTDOOR_AIR_TEMPERATURE: {
+        propertyId: 276,
+        dataType: PropertyDataType.CN_INT16,
+        convert: (v) => v / 10,
+        physicalUnit: '°C',
+        description: 'Temperature of the outdoor air',
+        category: PropertyCategory.Temperature,
+    },
     /** Temperature & Humidity: Preheated Outdoor Air (`3c00` = 60 -> 6.0 °C) */
     PREHEATED_OUTDOOR_AIR_TEMPERATURE: {
         propertyId: 277,
         dataType: PropertyDataType.CN_INT16,
         convert: (v) => v / 100,
+        physicalUnit: '°C',
+        description: 'Temperature of the outdoor air after the preheater',
+        category: PropertyCategory.Temperature,
+        requires: PropertyRequirement.Preheater,
     },
     /** PostHeaterTempBefore */
-    POST_HEATER_TEMP_BEFORE: { propertyId: 278, dataType: PropertyDataType.CN_INT16, convert: (v) => v / 100 },
+    POST_HEATER_TEMP_BEFORE: {
+        propertyId: 278,
+        dataType: PropertyDataType.CN_INT16,
+        convert: (v) => v / 100,
+        physicalUnit: '°C',
+        description: 'Temperature of the supply air before the post heater',
+        category: PropertyCategory.PostHeater,
+        requires: PropertyRequirement.PostHeater,
+    },
     /** Temperature & Humidity: Extract Air (`31` = 49%) */
-    EXTRACT_AIR_HUMIDITY: { propertyId: 290, dataType: PropertyDataType.CN_UINT8 },
+    EXTRACT_AIR_HUMIDITY: {
+        propertyId: 290,
+        dataType: PropertyDataType.CN_UINT8,
+        physicalUnit: '%',
+        description: 'Relative humidity of the extract air',
+        category: PropertyCategory.Humidity,
+    },
     /** Temperature & Humidity: Exhaust Air (`57` = 87%) */
-    EXHAUST_AIR_HUMIDITY: { propertyId: 291, dataType: PropertyDataType.CN_UINT8 },
+    EXHAUST_AIR_HUMIDITY: {
+        propertyId: 291,
+        dataType: PropertyDataType.CN_UINT8,
+        physicalUnit: '%',
+        description: 'Relative humidity of the exhaust air',
+        category: PropertyCategory.Humidity,
+    },
     /** Temperature & Humidity: Outdoor Air (`43` = 67%) */
-    OUTDOOR_AIR_HUMIDITY: { propertyId: 292, dataType: PropertyDataType.CN_UINT8 },
+    OUTDOOR_AIR_HUMIDITY: {
+        propertyId: 292,
+        dataType: PropertyDataType.CN_UINT8,
+        physicalUnit: '%',
+        description: 'Relative humidity of the outdoor air',
+        category: PropertyCategory.Humidity,
+    },
     /** Temperature & Humidity: Preheated Outdoor Air (`43` = 67%) */
-    PREHEATED_OUTDOOR_AIR_HUMIDITY: { propertyId: 293, dataType: PropertyDataType.CN_UINT8 },
+    PREHEATED_OUTDOOR_AIR_HUMIDITY: {
+        propertyId: 293,
+        dataType: PropertyDataType.CN_UINT8,
+        physicalUnit: '%',
+        description: 'Relative humidity of the outdoor air after the preheater',
+        category: PropertyCategory.Humidity,
+        requires: PropertyRequirement.Preheater,
+    },
     /** Temperature & Humidity: Supply Air (`23` = 35%) */
-    SUPPLY_AIR_HUMIDITY: { propertyId: 294, dataType: PropertyDataType.CN_UINT8 },
-    ANALOG_VOLTAGE_1: { propertyId: 513, dataType: PropertyDataType.CN_UINT16, convert: (v) => (v / 4100).toFixed(1) },
-    ANALOG_VOLTAGE_2: { propertyId: 514, dataType: PropertyDataType.CN_UINT16, convert: (v) => (v / 4160).toFixed(1) },
-    ANALOG_VOLTAGE_3: { propertyId: 515, dataType: PropertyDataType.CN_UINT16, convert: (v) => (v / 4160).toFixed(1) },
-    ANALOG_VOLTAGE_4: { propertyId: 516, dataType: PropertyDataType.CN_UINT16, convert: (v) => (v / 4160).toFixed(1) },
+    SUPPLY_AIR_HUMIDITY: {
+        propertyId: 294,
+        dataType: PropertyDataType.CN_UINT8,
+        physicalUnit: '%',
+        description: 'Relative humidity of the supply air',
+        category: PropertyCategory.Humidity,
+    },
+    /** Air flow constraints, a bitmask of the reasons the air flow is limited */
+    AIRFLOW_CONSTRAINTS: {
+        propertyId: 338,
+        dataType: PropertyDataType.CN_UINT32,
+        description: 'Reasons the air flow is currently limited',
+        category: PropertyCategory.Fans,
+    },
+    ANALOG_VOLTAGE_1: {
+        propertyId: 513,
+        dataType: PropertyDataType.CN_UINT16,
+        convert: (v) => (v / 4100).toFixed(1),
+        physicalUnit: 'V',
+        description: 'Voltage on analog input 1',
+        category: PropertyCategory.AnalogInput,
+    },
+    ANALOG_VOLTAGE_2: {
+        propertyId: 514,
+        dataType: PropertyDataType.CN_UINT16,
+        convert: (v) => (v / 4160).toFixed(1),
+        physicalUnit: 'V',
+        description: 'Voltage on analog input 2',
+        category: PropertyCategory.AnalogInput,
+    },
+    ANALOG_VOLTAGE_3: {
+        propertyId: 515,
+        dataType: PropertyDataType.CN_UINT16,
+        convert: (v) => (v / 4160).toFixed(1),
+        physicalUnit: 'V',
+        description: 'Voltage on analog input 3',
+        category: PropertyCategory.AnalogInput,
+    },
+    ANALOG_VOLTAGE_4: {
+        propertyId: 516,
+        dataType: PropertyDataType.CN_UINT16,
+        convert: (v) => (v / 4160).toFixed(1),
+        physicalUnit: 'V',
+        description: 'Voltage on analog input 4',
+        category: PropertyCategory.AnalogInput,
+    },
+    /** ComfoCool state (`00` = off, `01` = on) */
+    COMFOCOOL_STATE: {
+        propertyId: 784,
+        dataType: PropertyDataType.CN_UINT8,
+        description: 'State of the ComfoCool',
+        category: PropertyCategory.ComfoCool,
+        requires: PropertyRequirement.ComfoCool,
+    },
     /** ComfoCoolCompressor State */
-    COMFOCOOL_COMPRESSOR_STATE: { propertyId: 785, dataType: PropertyDataType.CN_BOOL },
+    COMFOCOOL_COMPRESSOR_STATE: {
+        propertyId: 785,
+        dataType: PropertyDataType.CN_BOOL,
+        description: 'Whether the compressor of the ComfoCool runs',
+        category: PropertyCategory.ComfoCool,
+        requires: PropertyRequirement.ComfoCool,
+    },
+    /** ComfoCool T10 room temperature (`d200` = 210 -> 21.0 °C) */
+    COMFOCOOL_ROOM_TEMPERATURE: {
+        propertyId: 801,
+        dataType: PropertyDataType.CN_INT16,
+        convert: (v) => v / 10,
+        physicalUnit: '°C',
+        description: 'Room temperature measured by the ComfoCool',
+        category: PropertyCategory.ComfoCool,
+        requires: PropertyRequirement.ComfoCool,
+    },
+    /** ComfoCool condensor temperature (`aa00` = 170 -> 17.0 °C) */
+    COMFOCOOL_CONDENSOR_TEMPERATURE: {
+        propertyId: 802,
+        dataType: PropertyDataType.CN_INT16,
+        convert: (v) => v / 10,
+        physicalUnit: '°C',
+        description: 'Temperature of the ComfoCool condensor',
+        category: PropertyCategory.ComfoCool,
+        requires: PropertyRequirement.ComfoCool,
+    },
+    /** ComfoCool T23 supply temperature (`aa00` = 170 -> 17.0 °C) */
+    COMFOCOOL_SUPPLY_TEMPERATURE: {
+        propertyId: 803,
+        dataType: PropertyDataType.CN_INT16,
+        convert: (v) => v / 10,
+        physicalUnit: '°C',
+        description: 'Temperature of the air supplied by the ComfoCool',
+        category: PropertyCategory.ComfoCool,
+        requires: PropertyRequirement.ComfoCool,
+    },
 } as const;
 
 /**
@@ -178,12 +748,16 @@ export function deserializePropertyValue<T extends PropertyDataType>(
     dataType: T,
     data: Buffer,
 ): DeriveNativeDataType<T>;
-export function deserializePropertyValue(type: PropertyDataType | { dataType?: PropertyDataType }, data: Buffer) {
+export function deserializePropertyValue(
+    type: PropertyDataType | { dataType?: PropertyDataType; enumValues?: EnumMapping },
+    data: Buffer,
+) {
     if (typeof type === 'object') {
         if (type.dataType === undefined) {
             return data;
         }
-        return PropertyDataTypeParsers[type.dataType](data);
+        const value = PropertyDataTypeParsers[type.dataType](data);
+        return type.enumValues && typeof value === 'number' ? (type.enumValues[value] ?? value) : value;
     }
     return PropertyDataTypeParsers[type](data);
 }
@@ -199,13 +773,61 @@ export function serializePropertyValue<T extends { dataType: PropertyDataType }>
     value: PropertyNativeType<T>,
 ): Buffer;
 export function serializePropertyValue<T extends PropertyDataType>(dataType: T, value: DeriveNativeDataType<T>): Buffer;
-export function serializePropertyValue(type: PropertyDataType | { dataType: PropertyDataType }, value: never) {
+export function serializePropertyValue(
+    type: PropertyDataType | { dataType: PropertyDataType; enumValues?: EnumMapping },
+    value: never,
+) {
     if (typeof type === 'object') {
-        return PropertyDataTypeSerializers[type.dataType](value);
+        const raw = Object.entries(type.enumValues ?? {}).find(([, member]) => member === value)?.[0];
+        return PropertyDataTypeSerializers[type.dataType](raw === undefined ? value : (Number(raw) as never));
     }
     return PropertyDataTypeSerializers[type](value);
 }
 
+/**
+ * Decodes the opening percentage reported by {@link ComfoAirProperties.BYPASS_STATE} into a {@link BypassState}.
+ * @param position The opening of the bypass in percent.
+ * @returns The state of the bypass.
+ */
+export function decodeBypassState(position: number): BypassState {
+    if (position <= 0) {
+        return BypassState.Closed;
+    }
+    return position >= 100 ? BypassState.Open : BypassState.PartiallyOpen;
+}
+
+/**
+ * Split a buffer holding multiple concatenated property values, such as the response to a multi-property RMI read,
+ * into the raw value of each property. Fixed-size types are cut by their size, strings are cut at the null terminator.
+ * @param dataTypes The data types of the properties in the order they appear in the buffer.
+ * @param data The data buffer to split.
+ * @returns The raw value of each property, null terminators are not included.
+ * @throws Will throw an error if the buffer is too short to hold all values.
+ */
+export function splitPropertyValues(dataTypes: PropertyDataType[], data: Buffer): Buffer[] {
+    const values: Buffer[] = [];
+    let offset = 0;
+
+    for (const dataType of dataTypes) {
+        const size = PropertyDataTypeSizes[dataType];
+        if (size === undefined) {
+            const end = data.indexOf(0, offset);
+            values.push(data.subarray(offset, end < 0 ? data.length : end));
+            offset = end < 0 ? data.length : end + 1;
+            continue;
+        }
+        if (offset + size > data.length) {
+            throw new Error(
+                `Cannot read ${PropertyDataType[dataType]} at offset ${offset}; buffer only holds ${data.length} bytes`,
+            );
+        }
+        values.push(data.subarray(offset, offset + size));
+        offset += size;
+    }
+
+    return values;
+}
+
 /**
  * Get the property object by its propertyId.
  * @param id The propertyId to get the property for.
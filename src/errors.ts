@@ -0,0 +1,169 @@
+import { Opcode, Result } from './protocol/comfoConnect';
+import type { NodeTypes, UnitTypes } from './rmiProperties';
+import type { ComfoControlMessage } from './comfoControlMessage';
+
+/**
+ * Error codes returned by the ventilation unit when it rejects an RMI request, see {@link RmiError}.
+ */
+export enum ErrorCodes {
+    NO_ERROR = 0,
+    UNKNOWN_COMMAND = 11,
+    UNKNOWN_UNIT = 12,
+    UNKNOWN_SUBUNIT = 13,
+    UNKNOWN_PROPERTY = 14,
+    TYPE_CANNOT_HAVE_RANGE = 15,
+    VALUE_NOT_IN_RANGE = 30,
+    PROPERTY_NOT_GETTABLE_OR_SETTABLE = 32,
+    INTERNAL_ERROR = 40,
+    INTERNAL_ERROR_COMMAND_WRONG = 41,
+}
+
+/**
+ * Base class for all errors thrown by the ComfoControl client.
+ */
+export class ComfoControlError extends Error {
+    constructor(message: string, options?: ErrorOptions) {
+        super(message, options);
+        this.name = new.target.name;
+    }
+}
+
+/**
+ * Thrown when a method is called with an argument the client cannot send, for example a malformed UUID.
+ * No request is sent to the gateway when this error is thrown.
+ */
+export class InvalidArgumentError extends ComfoControlError {}
+
+/**
+ * Thrown when the connection with the gateway cannot be opened or used, for example because the gateway
+ * is unreachable or a connection attempt is already in progress.
+ */
+export class ConnectionError extends ComfoControlError {}
+
+/**
+ * Thrown for requests that were still waiting for a response when the connection with the gateway was lost
+ * or the session was closed by the gateway.
+ */
+export class ConnectionLostError extends ConnectionError {
+    constructor(
+        /**
+         * The opcode of the request that did not receive a response.
+         */
+        public readonly opcode: Opcode,
+    ) {
+        super(`Connection with the gateway was lost before a response to ${Opcode[opcode]} was received`);
+    }
+}
+
+/**
+ * Thrown when the gateway did not respond to a request within the request timeout.
+ */
+export class RequestTimeoutError extends ComfoControlError {
+    constructor(
+        /**
+         * The opcode of the request that timed out.
+         */
+        public readonly opcode: Opcode,
+        /**
+         * The timeout in milliseconds that expired.
+         */
+        public readonly timeout: number,
+    ) {
+        super(`Gateway did not respond to ${Opcode[opcode]} within ${timeout}ms`);
+    }
+}
+
+/**
+ * Thrown when the gateway responds to a request with a result other than {@link Result.OK}.
+ */
+export class GatewayResultError extends ComfoControlError {
+    constructor(
+        /**
+         * The opcode of the request that failed.
+         */
+        public readonly opcode: Opcode,
+        /**
+         * The result code returned by the gateway.
+         */
+        public readonly result: Result,
+        /**
+         * The response message received from the gateway.
+         */
+        public readonly response?: ComfoControlMessage,
+    ) {
+        super(`${Opcode[opcode]} failed: ${Result[result] ?? 'UNKNOWN'} (${result})`);
+    }
+}
+
+/**
+ * Thrown when a session with the gateway cannot be started, for example because the PIN code is incorrect.
+ */
+export class SessionError extends ComfoControlError {
+    constructor(
+        message: string,
+        /**
+         * The result code returned by the gateway, if the gateway rejected the request.
+         */
+        public readonly result?: Result,
+        options?: ErrorOptions,
+    ) {
+        super(message, options);
+    }
+}
+
+/**
+ * Thrown when the gateway rejects a PIN code, for example because the current PIN passed to change the PIN is incorrect.
+ */
+export class InvalidPinError extends GatewayResultError {
+    constructor(opcode: Opcode, result: Result, response?: ComfoControlMessage) {
+        super(opcode, result, response);
+        this.message = `The gateway rejected the PIN code: ${Result[result] ?? 'UNKNOWN'} (${result})`;
+    }
+}
+
+/**
+ * Identifies the node, unit, subunit and property an RMI request was sent to.
+ */
+export interface RmiTarget {
+    node: NodeTypes | number;
+    unit?: UnitTypes;
+    subunit?: number;
+    propertyId?: number;
+}
+
+/**
+ * Thrown when the ventilation unit rejects an RMI request, see {@link ErrorCodes} for the possible error codes.
+ */
+export class RmiError extends ComfoControlError {
+    /**
+     * The node the request was sent to.
+     */
+    public readonly node: NodeTypes | number;
+    /**
+     * The unit the request was sent to, if known.
+     */
+    public readonly unit?: UnitTypes;
+    /**
+     * The subunit the request was sent to, if known.
+     */
+    public readonly subunit?: number;
+    /**
+     * The property the request was sent to, if the request targeted a single property.
+     */
+    public readonly propertyId?: number;
+
+    constructor(
+        /**
+         * The error code returned by the ventilation unit.
+         */
+        public readonly errorCode: ErrorCodes,
+        target: RmiTarget,
+        action: string = 'execute command',
+    ) {
+        super(`Failed to ${action}: ${ErrorCodes[errorCode] ?? 'UNKNOWN'} (${errorCode})`);
+        this.node = target.node;
+        this.unit = target.unit;
+        this.subunit = target.subunit;
+        this.propertyId = target.propertyId;
+    }
+}
@@ -0,0 +1,61 @@
+/**
+ * Release stage encoded in the two most significant bits of a ComfoNet version number.
+ */
+export enum VersionStage {
+    U = 0,
+    D = 1,
+    P = 2,
+    R = 3,
+}
+
+/**
+ * Firmware version of a ComfoNet node or the ComfoConnect gateway.
+ */
+export interface FirmwareVersion {
+    /**
+     * The release stage of the firmware, `R` for a regular release.
+     */
+    stage: VersionStage;
+    major: number;
+    minor: number;
+    patch: number;
+}
+
+/**
+ * Decodes a version number as reported by the gateway and the ComfoNet nodes.
+ * The version is packed into 32 bits: 2 bits for the {@link VersionStage} followed by 10 bits for each of the major, minor and patch numbers.
+ *
+ * @example
+ * ```typescript
+ * decodeFirmwareVersion(0xc0100c03); // { stage: VersionStage.R, major: 1, minor: 3, patch: 3 }
+ * ```
+ * @param version The packed version number.
+ * @returns The decoded version.
+ */
+export function decodeFirmwareVersion(version: number): FirmwareVersion {
+    return {
+        stage: (version >>> 30) & 0x3,
+        major: (version >>> 20) & 0x3ff,
+        minor: (version >>> 10) & 0x3ff,
+        patch: version & 0x3ff,
+    };
+}
+
+/**
+ * Formats a firmware version as a string, for example `R1.3.3`.
+ * @param version The version to format.
+ */
+export function formatFirmwareVersion(version: FirmwareVersion): string {
+    return `${VersionStage[version.stage]}${version.major}.${version.minor}.${version.patch}`;
+}
+
+/**
+ * Compares two firmware versions by their major, minor and patch numbers; the release stage is ignored.
+ * @returns A negative number when `a` is older than `b`, a positive number when `a` is newer and 0 when both are equal.
+ */
+export function compareFirmwareVersions(
+    a: Pick<FirmwareVersion, 'major' | 'minor' | 'patch'>,
+    b: Pick<FirmwareVersion, 'major' | 'minor' | 'patch'>,
+): number {
+    return a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+}
@@ -1,11 +1,18 @@
 export * from './protocol/comfoConnect';
+export * from './alarms';
 export * from './comfoControlClient';
+export * from './comfoControlFramer';
 export * from './comfoControlHeader';
 export * from './comfoControlMessage';
 export * from './comfoControlTransport';
-export { NodeProductType } from './consts';
+export * from './cnTime';
+export { NodeProductType, NodeModeType } from './consts';
 export * from './deviceProperties';
 export * from './discoveryOperation';
+export * from './errors';
+export * from './firmwareVersion';
+export * from './rmiMessage';
+export * from './rmiPropertyScanner';
 export * from './rmiProperties';
 export * from './opcodes';
 export * from './util/logging/index';
@@ -1,5 +1,6 @@
 import type { IMessageType } from '@protobuf-ts/runtime';
 import {
+    ChangePinRequest,
     CnAlarmNotification,
     CnNodeNotification,
     CnRmiAsyncConfirm,
@@ -11,11 +12,15 @@ import {
     CnRpdoRequest,
     CnTimeConfirm,
     CnTimeRequest,
+    GatewayNotification,
+    ListRegisteredAppsConfirm,
     NullMessage,
     Opcode,
     RegisterDeviceRequest,
     StartSessionConfirm,
     StartSessionRequest,
+    UnregisterDeviceRequest,
+    VersionConfirm,
 } from './protocol/comfoConnect';
 
 export type OpcodeMessageType<T extends Opcode> = (typeof opcodes)[T] extends IMessageType<infer U> ? U : never;
@@ -27,8 +32,8 @@ export const opcodes = {
     [Opcode.START_SESSION_REQUEST]: StartSessionRequest as IMessageType<StartSessionRequest>,
     [Opcode.CLOSE_SESSION_REQUEST]: NullMessage as IMessageType<NullMessage>,
     [Opcode.LIST_REGISTERED_APPS_REQUEST]: NullMessage as IMessageType<NullMessage>,
-    [Opcode.UNREGISTER_DEVICE_REQUEST]: NullMessage as IMessageType<NullMessage>,
-    [Opcode.CHANGE_PIN_REQUEST]: NullMessage as IMessageType<NullMessage>,
+    [Opcode.UNREGISTER_DEVICE_REQUEST]: UnregisterDeviceRequest as IMessageType<UnregisterDeviceRequest>,
+    [Opcode.CHANGE_PIN_REQUEST]: ChangePinRequest as IMessageType<ChangePinRequest>,
     [Opcode.GET_REMOTE_ACCESS_ID_REQUEST]: NullMessage as IMessageType<NullMessage>,
     [Opcode.SET_REMOTE_ACCESS_ID_REQUEST]: NullMessage as IMessageType<NullMessage>,
     [Opcode.GET_SUPPORT_ID_REQUEST]: NullMessage as IMessageType<NullMessage>,
@@ -44,7 +49,7 @@ export const opcodes = {
     [Opcode.REGISTER_DEVICE_CONFIRM]: NullMessage as IMessageType<NullMessage>,
     [Opcode.START_SESSION_CONFIRM]: StartSessionConfirm as IMessageType<StartSessionConfirm>,
     [Opcode.CLOSE_SESSION_CONFIRM]: NullMessage as IMessageType<NullMessage>,
-    [Opcode.LIST_REGISTERED_APPS_CONFIRM]: NullMessage as IMessageType<NullMessage>,
+    [Opcode.LIST_REGISTERED_APPS_CONFIRM]: ListRegisteredAppsConfirm as IMessageType<ListRegisteredAppsConfirm>,
     [Opcode.UNREGISTER_DEVICE_CONFIRM]: NullMessage as IMessageType<NullMessage>,
     [Opcode.CHANGE_PIN_CONFIRM]: NullMessage as IMessageType<NullMessage>,
     [Opcode.GET_REMOTE_ACCESS_ID_CONFIRM]: NullMessage as IMessageType<NullMessage>,
@@ -57,8 +62,8 @@ export const opcodes = {
     [Opcode.DEBUG_CONFIRM]: NullMessage as IMessageType<NullMessage>,
     [Opcode.UPGRADE_CONFIRM]: NullMessage as IMessageType<NullMessage>,
     [Opcode.SET_DEVICE_SETTINGS_CONFIRM]: NullMessage as IMessageType<NullMessage>,
-    [Opcode.VERSION_CONFIRM]: NullMessage as IMessageType<NullMessage>,
-    [Opcode.GATEWAY_NOTIFICATION]: NullMessage as IMessageType<NullMessage>,
+    [Opcode.VERSION_CONFIRM]: VersionConfirm as IMessageType<VersionConfirm>,
+    [Opcode.GATEWAY_NOTIFICATION]: GatewayNotification as IMessageType<GatewayNotification>,
     [Opcode.KEEP_ALIVE]: NullMessage as IMessageType<NullMessage>,
     [Opcode.FACTORY_RESET]: NullMessage as IMessageType<NullMessage>,
     [Opcode.CN_TIME_REQUEST]: CnTimeRequest as IMessageType<CnTimeRequest>,
@@ -94,6 +99,7 @@ export const requestMessages = {
     [Opcode.CN_RMI_ASYNC_REQUEST]: Opcode.CN_RMI_ASYNC_CONFIRM,
     [Opcode.CN_RPDO_REQUEST]: Opcode.CN_RPDO_CONFIRM,
     [Opcode.CN_TIME_REQUEST]: Opcode.CN_TIME_CONFIRM,
+    [Opcode.CN_NODE_REQUEST]: Opcode.NO_OPERATION,
     [Opcode.KEEP_ALIVE]: Opcode.NO_OPERATION,
     [Opcode.FACTORY_RESET]: Opcode.NO_OPERATION,
     [Opcode.SET_ADDRESS_REQUEST]: Opcode.SET_ADDRESS_CONFIRM,
@@ -105,6 +105,50 @@ export interface StartSessionConfirm {
      */
     resumed: boolean;
 }
+/**
+ * @generated from protobuf message ListRegisteredAppsConfirm
+ */
+export interface ListRegisteredAppsConfirm {
+    /**
+     * @generated from protobuf field: repeated ListRegisteredAppsConfirm.App apps = 1;
+     */
+    apps: ListRegisteredAppsConfirm_App[];
+}
+/**
+ * @generated from protobuf message ListRegisteredAppsConfirm.App
+ */
+export interface ListRegisteredAppsConfirm_App {
+    /**
+     * @generated from protobuf field: bytes uuid = 1;
+     */
+    uuid: Uint8Array;
+    /**
+     * @generated from protobuf field: string deviceName = 2;
+     */
+    deviceName: string;
+}
+/**
+ * @generated from protobuf message UnregisterDeviceRequest
+ */
+export interface UnregisterDeviceRequest {
+    /**
+     * @generated from protobuf field: bytes uuid = 1;
+     */
+    uuid: Uint8Array;
+}
+/**
+ * @generated from protobuf message ChangePinRequest
+ */
+export interface ChangePinRequest {
+    /**
+     * @generated from protobuf field: uint32 oldPin = 1;
+     */
+    oldPin: number;
+    /**
+     * @generated from protobuf field: uint32 newPin = 2;
+     */
+    newPin: number;
+}
 /**
  * @generated from protobuf message CnNodeNotification
  */
@@ -184,6 +228,19 @@ export interface CnAlarmNotification {
      */
     nodeId: number;
 }
+/**
+ * @generated from protobuf message GatewayNotification
+ */
+export interface GatewayNotification {
+    /**
+     * @generated from protobuf field: repeated bytes pushUUIDs = 1;
+     */
+    pushUUIDs: Uint8Array[];
+    /**
+     * @generated from protobuf field: optional CnAlarmNotification alarm = 2;
+     */
+    alarm?: CnAlarmNotification;
+}
 /**
  * @generated from protobuf message VersionConfirm
  */
@@ -1062,6 +1119,251 @@ class StartSessionConfirm$Type extends MessageType<StartSessionConfirm> {
  */
 export const StartSessionConfirm = new StartSessionConfirm$Type();
 // @generated message type with reflection information, may provide speed optimized methods
+class ListRegisteredAppsConfirm$Type extends MessageType<ListRegisteredAppsConfirm> {
+    constructor() {
+        super('ListRegisteredAppsConfirm', [
+            {
+                no: 1,
+                name: 'apps',
+                kind: 'message',
+                repeat: 1 /*RepeatType.PACKED*/,
+                T: () => ListRegisteredAppsConfirm_App,
+            },
+        ]);
+    }
+    create(value?: PartialMessage<ListRegisteredAppsConfirm>): ListRegisteredAppsConfirm {
+        const message = globalThis.Object.create(this.messagePrototype!);
+        message.apps = [];
+        if (value !== undefined) reflectionMergePartial<ListRegisteredAppsConfirm>(this, message, value);
+        return message;
+    }
+    internalBinaryRead(
+        reader: IBinaryReader,
+        length: number,
+        options: BinaryReadOptions,
+        target?: ListRegisteredAppsConfirm,
+    ): ListRegisteredAppsConfirm {
+        let message = target ?? this.create(),
+            end = reader.pos + length;
+        while (reader.pos < end) {
+            let [fieldNo, wireType] = reader.tag();
+            switch (fieldNo) {
+                case /* repeated ListRegisteredAppsConfirm.App apps */ 1:
+                    message.apps.push(
+                        ListRegisteredAppsConfirm_App.internalBinaryRead(reader, reader.uint32(), options),
+                    );
+                    break;
+                default:
+                    let u = options.readUnknownField;
+                    if (u === 'throw')
+                        throw new globalThis.Error(
+                            `Unknown field ${fieldNo} (wire type ${wireType}) for ${this.typeName}`,
+                        );
+                    let d = reader.skip(wireType);
+                    if (u !== false)
+                        (u === true ? UnknownFieldHandler.onRead : u)(this.typeName, message, fieldNo, wireType, d);
+            }
+        }
+        return message;
+    }
+    internalBinaryWrite(
+        message: ListRegisteredAppsConfirm,
+        writer: IBinaryWriter,
+        options: BinaryWriteOptions,
+    ): IBinaryWriter {
+        /* repeated ListRegisteredAppsConfirm.App apps = 1; */
+        for (let i = 0; i < message.apps.length; i++)
+            ListRegisteredAppsConfirm_App.internalBinaryWrite(
+                message.apps[i],
+                writer.tag(1, WireType.LengthDelimited).fork(),
+                options,
+            ).join();
+        let u = options.writeUnknownFields;
+        if (u !== false) (u == true ? UnknownFieldHandler.onWrite : u)(this.typeName, message, writer);
+        return writer;
+    }
+}
+/**
+ * @generated MessageType for protobuf message ListRegisteredAppsConfirm
+ */
+export const ListRegisteredAppsConfirm = new ListRegisteredAppsConfirm$Type();
+// @generated message type with reflection information, may provide speed optimized methods
+class ListRegisteredAppsConfirm_App$Type extends MessageType<ListRegisteredAppsConfirm_App> {
+    constructor() {
+        super('ListRegisteredAppsConfirm.App', [
+            { no: 1, name: 'uuid', kind: 'scalar', T: 12 /*ScalarType.BYTES*/ },
+            { no: 2, name: 'deviceName', kind: 'scalar', T: 9 /*ScalarType.STRING*/ },
+        ]);
+    }
+    create(value?: PartialMessage<ListRegisteredAppsConfirm_App>): ListRegisteredAppsConfirm_App {
+        const message = globalThis.Object.create(this.messagePrototype!);
+        message.uuid = new Uint8Array(0);
+        message.deviceName = '';
+        if (value !== undefined) reflectionMergePartial<ListRegisteredAppsConfirm_App>(this, message, value);
+        return message;
+    }
+    internalBinaryRead(
+        reader: IBinaryReader,
+        length: number,
+        options: BinaryReadOptions,
+        target?: ListRegisteredAppsConfirm_App,
+    ): ListRegisteredAppsConfirm_App {
+        let message = target ?? this.create(),
+            end = reader.pos + length;
+        while (reader.pos < end) {
+            let [fieldNo, wireType] = reader.tag();
+            switch (fieldNo) {
+                case /* bytes uuid */ 1:
+                    message.uuid = reader.bytes();
+                    break;
+                case /* string deviceName */ 2:
+                    message.deviceName = reader.string();
+                    break;
+                default:
+                    let u = options.readUnknownField;
+                    if (u === 'throw')
+                        throw new globalThis.Error(
+                            `Unknown field ${fieldNo} (wire type ${wireType}) for ${this.typeName}`,
+                        );
+                    let d = reader.skip(wireType);
+                    if (u !== false)
+                        (u === true ? UnknownFieldHandler.onRead : u)(this.typeName, message, fieldNo, wireType, d);
+            }
+        }
+        return message;
+    }
+    internalBinaryWrite(
+        message: ListRegisteredAppsConfirm_App,
+        writer: IBinaryWriter,
+        options: BinaryWriteOptions,
+    ): IBinaryWriter {
+        /* bytes uuid = 1; */
+        if (message.uuid.length) writer.tag(1, WireType.LengthDelimited).bytes(message.uuid);
+        /* string deviceName = 2; */
+        if (message.deviceName !== '') writer.tag(2, WireType.LengthDelimited).string(message.deviceName);
+        let u = options.writeUnknownFields;
+        if (u !== false) (u == true ? UnknownFieldHandler.onWrite : u)(this.typeName, message, writer);
+        return writer;
+    }
+}
+/**
+ * @generated MessageType for protobuf message ListRegisteredAppsConfirm.App
+ */
+export const ListRegisteredAppsConfirm_App = new ListRegisteredAppsConfirm_App$Type();
+// @generated message type with reflection information, may provide speed optimized methods
+class UnregisterDeviceRequest$Type extends MessageType<UnregisterDeviceRequest> {
+    constructor() {
+        super('UnregisterDeviceRequest', [{ no: 1, name: 'uuid', kind: 'scalar', T: 12 /*ScalarType.BYTES*/ }]);
+    }
+    create(value?: PartialMessage<UnregisterDeviceRequest>): UnregisterDeviceRequest {
+        const message = globalThis.Object.create(this.messagePrototype!);
+        message.uuid = new Uint8Array(0);
+        if (value !== undefined) reflectionMergePartial<UnregisterDeviceRequest>(this, message, value);
+        return message;
+    }
+    internalBinaryRead(
+        reader: IBinaryReader,
+        length: number,
+        options: BinaryReadOptions,
+        target?: UnregisterDeviceRequest,
+    ): UnregisterDeviceRequest {
+        let message = target ?? this.create(),
+            end = reader.pos + length;
+        while (reader.pos < end) {
+            let [fieldNo, wireType] = reader.tag();
+            switch (fieldNo) {
+                case /* bytes uuid */ 1:
+                    message.uuid = reader.bytes();
+                    break;
+                default:
+                    let u = options.readUnknownField;
+                    if (u === 'throw')
+                        throw new globalThis.Error(
+                            `Unknown field ${fieldNo} (wire type ${wireType}) for ${this.typeName}`,
+                        );
+                    let d = reader.skip(wireType);
+                    if (u !== false)
+                        (u === true ? UnknownFieldHandler.onRead : u)(this.typeName, message, fieldNo, wireType, d);
+            }
+        }
+        return message;
+    }
+    internalBinaryWrite(
+        message: UnregisterDeviceRequest,
+        writer: IBinaryWriter,
+        options: BinaryWriteOptions,
+    ): IBinaryWriter {
+        /* bytes uuid = 1; */
+        if (message.uuid.length) writer.tag(1, WireType.LengthDelimited).bytes(message.uuid);
+        let u = options.writeUnknownFields;
+        if (u !== false) (u == true ? UnknownFieldHandler.onWrite : u)(this.typeName, message, writer);
+        return writer;
+    }
+}
+/**
+ * @generated MessageType for protobuf message UnregisterDeviceRequest
+ */
+export const UnregisterDeviceRequest = new UnregisterDeviceRequest$Type();
+// @generated message type with reflection information, may provide speed optimized methods
+class ChangePinRequest$Type extends MessageType<ChangePinRequest> {
+    constructor() {
+        super('ChangePinRequest', [
+            { no: 1, name: 'oldPin', kind: 'scalar', T: 13 /*ScalarType.UINT32*/ },
+            { no: 2, name: 'newPin', kind: 'scalar', T: 13 /*ScalarType.UINT32*/ },
+        ]);
+    }
+    create(value?: PartialMessage<ChangePinRequest>): ChangePinRequest {
+        const message = globalThis.Object.create(this.messagePrototype!);
+        message.oldPin = 0;
+        message.newPin = 0;
+        if (value !== undefined) reflectionMergePartial<ChangePinRequest>(this, message, value);
+        return message;
+    }
+    internalBinaryRead(
+        reader: IBinaryReader,
+        length: number,
+        options: BinaryReadOptions,
+        target?: ChangePinRequest,
+    ): ChangePinRequest {
+        let message = target ?? this.create(),
+            end = reader.pos + length;
+        while (reader.pos < end) {
+            let [fieldNo, wireType] = reader.tag();
+            switch (fieldNo) {
+                case /* uint32 oldPin */ 1:
+                    message.oldPin = reader.uint32();
+                    break;
+                case /* uint32 newPin */ 2:
+                    message.newPin = reader.uint32();
+                    break;
+                default:
+                    let u = options.readUnknownField;
+                    if (u === 'throw')
+                        throw new globalThis.Error(
+                            `Unknown field ${fieldNo} (wire type ${wireType}) for ${this.typeName}`,
+                        );
+                    let d = reader.skip(wireType);
+                    if (u !== false)
+                        (u === true ? UnknownFieldHandler.onRead : u)(this.typeName, message, fieldNo, wireType, d);
+            }
+        }
+        return message;
+    }
+    internalBinaryWrite(message: ChangePinRequest, writer: IBinaryWriter, options: BinaryWriteOptions): IBinaryWriter {
+        /* uint32 oldPin = 1; */
+        if (message.oldPin !== 0) writer.tag(1, WireType.Varint).uint32(message.oldPin);
+        /* uint32 newPin = 2; */
+        if (message.newPin !== 0) writer.tag(2, WireType.Varint).uint32(message.newPin);
+        let u = options.writeUnknownFields;
+        if (u !== false) (u == true ? UnknownFieldHandler.onWrite : u)(this.typeName, message, writer);
+        return writer;
+    }
+}
+/**
+ * @generated MessageType for protobuf message ChangePinRequest
+ */
+export const ChangePinRequest = new ChangePinRequest$Type();
+// @generated message type with reflection information, may provide speed optimized methods
 class CnNodeNotification$Type extends MessageType<CnNodeNotification> {
     constructor() {
         super('CnNodeNotification', [
@@ -1249,6 +1551,79 @@ class CnAlarmNotification$Type extends MessageType<CnAlarmNotification> {
  */
 export const CnAlarmNotification = new CnAlarmNotification$Type();
 // @generated message type with reflection information, may provide speed optimized methods
+class GatewayNotification$Type extends MessageType<GatewayNotification> {
+    constructor() {
+        super('GatewayNotification', [
+            { no: 1, name: 'pushUUIDs', kind: 'scalar', repeat: 2 /*RepeatType.UNPACKED*/, T: 12 /*ScalarType.BYTES*/ },
+            { no: 2, name: 'alarm', kind: 'message', T: () => CnAlarmNotification },
+        ]);
+    }
+    create(value?: PartialMessage<GatewayNotification>): GatewayNotification {
+        const message = globalThis.Object.create(this.messagePrototype!);
+        message.pushUUIDs = [];
+        if (value !== undefined) reflectionMergePartial<GatewayNotification>(this, message, value);
+        return message;
+    }
+    internalBinaryRead(
+        reader: IBinaryReader,
+        length: number,
+        options: BinaryReadOptions,
+        target?: GatewayNotification,
+    ): GatewayNotification {
+        let message = target ?? this.create(),
+            end = reader.pos + length;
+        while (reader.pos < end) {
+            let [fieldNo, wireType] = reader.tag();
+            switch (fieldNo) {
+                case /* repeated bytes pushUUIDs */ 1:
+                    message.pushUUIDs.push(reader.bytes());
+                    break;
+                case /* optional CnAlarmNotification alarm */ 2:
+                    message.alarm = CnAlarmNotification.internalBinaryRead(
+                        reader,
+                        reader.uint32(),
+                        options,
+                        message.alarm,
+                    );
+                    break;
+                default:
+                    let u = options.readUnknownField;
+                    if (u === 'throw')
+                        throw new globalThis.Error(
+                            `Unknown field ${fieldNo} (wire type ${wireType}) for ${this.typeName}`,
+                        );
+                    let d = reader.skip(wireType);
+                    if (u !== false)
+                        (u === true ? UnknownFieldHandler.onRead : u)(this.typeName, message, fieldNo, wireType, d);
+            }
+        }
+        return message;
+    }
+    internalBinaryWrite(
+        message: GatewayNotification,
+        writer: IBinaryWriter,
+        options: BinaryWriteOptions,
+    ): IBinaryWriter {
+        /* repeated bytes pushUUIDs = 1; */
+        for (let i = 0; i < message.pushUUIDs.length; i++)
+            writer.tag(1, WireType.LengthDelimited).bytes(message.pushUUIDs[i]);
+        /* optional CnAlarmNotification alarm = 2; */
+        if (message.alarm)
+            CnAlarmNotification.internalBinaryWrite(
+                message.alarm,
+                writer.tag(2, WireType.LengthDelimited).fork(),
+                options,
+            ).join();
+        let u = options.writeUnknownFields;
+        if (u !== false) (u == true ? UnknownFieldHandler.onWrite : u)(this.typeName, message, writer);
+        return writer;
+    }
+}
+/**
+ * @generated MessageType for protobuf message GatewayNotification
+ */
+export const GatewayNotification = new GatewayNotification$Type();
+// @generated message type with reflection information, may provide speed optimized methods
 class VersionConfirm$Type extends MessageType<VersionConfirm> {
     constructor() {
         super('VersionConfirm', [
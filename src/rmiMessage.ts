@@ -0,0 +1,395 @@
+import { PropertyDataType, PropertyNativeType, splitPropertyValues } from './deviceProperties';
+import { NodeProperty, NodeTypes, UnitTypes, decodeNodePropertyValue, encodeNodePropertyValue } from './rmiProperties';
+import { InvalidArgumentError } from './errors';
+import type { RmiTarget } from './errors';
+
+/**
+ * The first byte of an RMI message that identifies the command.
+ */
+export enum RmiCommand {
+    /** Read a single property: `01 <unit> <subunit> <type> <property>` */
+    GET_SINGLE_PROPERTY = 0x01,
+    /** Read up to 8 properties of the same subunit: `02 <unit> <subunit> 01 <type | count> <property>...` */
+    GET_MULTIPLE_PROPERTIES = 0x02,
+    /** Write a single property: `03 <unit> <subunit> <property> <value>` */
+    SET_PROPERTY = 0x03,
+    /** Reset the errors of a unit: `82 <unit> <subunit>` */
+    RESET_ERRORS = 0x82,
+    /** Read the active schedule entry of a subunit: `83 <unit> <subunit> <entry type>` */
+    GET_SCHEDULE_ENTRY = 0x83,
+    /** Enable a schedule entry: `84 <unit> <subunit> <entry type> <start> <duration> <value>` */
+    ENABLE_SCHEDULE_ENTRY = 0x84,
+    /** Disable a schedule entry: `85 <unit> <subunit> <entry type>` */
+    DISABLE_SCHEDULE_ENTRY = 0x85,
+}
+
+/**
+ * Selects what is returned by a property read; the flags can be combined.
+ */
+export enum RmiPropertyRequestType {
+    /** The actual value of the property. */
+    VALUE = 0x10,
+    /** The minimum and maximum value of the property. */
+    RANGE = 0x20,
+    /** The step size of the property. */
+    STEP = 0x40,
+}
+
+/**
+ * Duration of a schedule entry that stays active until it is disabled.
+ */
+export const SCHEDULE_DURATION_INDEFINITE = 0xffffffff;
+
+/**
+ * Subunits of the SCHEDULE unit, each subunit overrides one function of the ventilation unit.
+ */
+export enum ScheduleSubunit {
+    /** The fan speed, the value is a {@link FanMode}. */
+    FAN_SPEED = 0x01,
+    /** The bypass of the heat exchanger. */
+    BYPASS = 0x02,
+    /** The temperature profile, the value is a {@link TemperatureProfile}. */
+    TEMPERATURE_PROFILE = 0x03,
+    /** Only the supply fan runs; the exhaust fan is off. */
+    SUPPLY_ONLY = 0x06,
+    /** Only the exhaust fan runs; the supply fan is off. */
+    EXHAUST_ONLY = 0x07,
+    /** The operating mode, manual or automatic. */
+    OPERATING_MODE = 0x08,
+}
+
+/**
+ * Type of a schedule entry; an entry of each type can be active for each subunit.
+ */
+export enum ScheduleEntryType {
+    /** A manual override, such as selecting a fan speed on the unit or in the app. */
+    MANUAL = 0x01,
+    /** A temporary override that expires on its own, such as a boost. */
+    TIMER = 0x06,
+}
+
+/**
+ * An RMI command sent to a unit and subunit of a ComfoNet node with a CN_RMI_REQUEST.
+ * Each command encodes itself to the bytes of the RMI request and decodes the payload of the RMI response.
+ *
+ * @example
+ * ```typescript
+ * const message = new GetPropertyMessage(VentilationUnitProperties.NODE.SERIAL_NUMBER);
+ * const serial = await client.executeRmi(message);
+ * ```
+ */
+export abstract class RmiMessage<TResponse = void> {
+    /**
+     * Describes what the command does, used in the message of an {@link RmiError} when the command fails.
+     */
+    public abstract readonly action: string;
+
+    constructor(
+        public readonly command: RmiCommand,
+        public readonly unit: UnitTypes,
+        public readonly subunit: number = 1,
+        public readonly node: NodeTypes | number = NodeTypes.VENTILATION_UNIT,
+    ) {}
+
+    /**
+     * The node, unit and subunit the command is sent to.
+     */
+    public get target(): RmiTarget {
+        return { node: this.node, unit: this.unit, subunit: this.subunit };
+    }
+
+    /**
+     * Encodes the command to the bytes of the RMI request.
+     */
+    public encode(): Buffer {
+        return Buffer.concat([Buffer.from([this.command, this.unit, this.subunit]), this.encodeArguments()]);
+    }
+
+    /**
+     * Decodes the payload of the RMI response.
+     * @param response The payload of the RMI response.
+     */
+    public abstract decode(response: Buffer): TResponse;
+
+    protected abstract encodeArguments(): Buffer;
+}
+
+/**
+ * Reads the value of a single property.
+ */
+export class GetPropertyMessage<P extends NodeProperty = NodeProperty> extends RmiMessage<PropertyNativeType<P>> {
+    public readonly action = 'read property';
+
+    constructor(public readonly property: P) {
+        super(RmiCommand.GET_SINGLE_PROPERTY, property.unit, property.subunit ?? 1, property.node);
+    }
+
+    public override get target(): RmiTarget {
+        return { ...super.target, propertyId: this.property.propertyId };
+    }
+
+    public decode(response: Buffer): PropertyNativeType<P> {
+        return decodeNodePropertyValue(this.property, response);
+    }
+
+    protected encodeArguments() {
+        return Buffer.from([RmiPropertyRequestType.VALUE, this.property.propertyId]);
+    }
+}
+
+/**
+ * Reads the values of up to 8 properties of the same node, unit and subunit.
+ * The response holds the concatenated values which are split by the data type of each property.
+ */
+export class GetPropertiesMessage extends RmiMessage<Buffer[]> {
+    /**
+     * Maximum number of properties that can be read with a single message.
+     */
+    public static readonly MAX_PROPERTIES = 8;
+
+    public readonly action = 'read properties';
+
+    constructor(public readonly properties: readonly NodeProperty[]) {
+        const { unit, subunit, node } = GetPropertiesMessage.validate(properties);
+        super(RmiCommand.GET_MULTIPLE_PROPERTIES, unit, subunit ?? 1, node);
+    }
+
+    private static validate(properties: readonly NodeProperty[]): NodeProperty {
+        if (properties.length === 0 || properties.length > GetPropertiesMessage.MAX_PROPERTIES) {
+            throw new InvalidArgumentError(`Expected between 1 and ${GetPropertiesMessage.MAX_PROPERTIES} properties`);
+        }
+        const targets = properties.map((prop) => [prop.node, prop.unit, prop.subunit ?? 1].join(':'));
+        if (new Set(targets).size > 1) {
+            throw new InvalidArgumentError('Properties must be from the same node, unit and subunit');
+        }
+        return properties[0];
+    }
+
+    /**
+     * Decodes the response into the raw value of each property.
+     */
+    public decode(response: Buffer): Buffer[] {
+        return splitPropertyValues(
+            this.properties.map((p) => p.dataType),
+            response,
+        );
+    }
+
+    protected encodeArguments() {
+        return Buffer.from([
+            0x01,
+            RmiPropertyRequestType.VALUE | this.properties.length,
+            ...this.properties.map((p) => p.propertyId),
+        ]);
+    }
+}
+
+/**
+ * Writes the value of a single property.
+ */
+export class SetPropertyMessage<P extends NodeProperty = NodeProperty> extends RmiMessage {
+    public readonly action = 'write property';
+
+    constructor(
+        public readonly property: P,
+        public readonly value: PropertyNativeType<P>,
+    ) {
+        super(RmiCommand.SET_PROPERTY, property.unit, property.subunit ?? 1, property.node);
+    }
+
+    public override get target(): RmiTarget {
+        return { ...super.target, propertyId: this.property.propertyId };
+    }
+
+    public decode() {}
+
+    protected encodeArguments() {
+        return Buffer.concat([
+            Buffer.from([this.property.propertyId]),
+            encodeNodePropertyValue(this.property, this.value),
+        ]);
+    }
+}
+
+export interface PropertyRange<T = unknown> {
+    min: T;
+    max: T;
+    step: T;
+}
+
+/**
+ * Reads the minimum, maximum and step size of a single property.
+ */
+export class GetPropertyRangeMessage<P extends NodeProperty = NodeProperty> extends RmiMessage<
+    PropertyRange<PropertyNativeType<P>>
+> {
+    public readonly action = 'read property range';
+
+    constructor(public readonly property: P) {
+        super(RmiCommand.GET_SINGLE_PROPERTY, property.unit, property.subunit ?? 1, property.node);
+    }
+
+    public override get target(): RmiTarget {
+        return { ...super.target, propertyId: this.property.propertyId };
+    }
+
+    public decode(response: Buffer): PropertyRange<PropertyNativeType<P>> {
+        const dataType: PropertyDataType = this.property.dataType;
+        const [min, max, step] = splitPropertyValues([dataType, dataType, dataType], response).map((value) =>
+            decodeNodePropertyValue(this.property, value),
+        );
+        return { min, max, step };
+    }
+
+    protected encodeArguments() {
+        return Buffer.from([RmiPropertyRequestType.RANGE | RmiPropertyRequestType.STEP, this.property.propertyId]);
+    }
+}
+
+export interface ScheduleEntryValue {
+    /**
+     * Delay in seconds before the entry becomes active. Defaults to 0 to activate the entry immediately.
+     */
+    start?: number;
+    /**
+     * Number of seconds the entry stays active, use {@link SCHEDULE_DURATION_INDEFINITE} to keep the entry active until it is disabled.
+     */
+    duration: number;
+    /**
+     * The value of the entry, for example the fan speed for the fan subunit.
+     */
+    value: number;
+}
+
+/**
+ * Enables a schedule entry of a subunit of the SCHEDULE unit; used to override the fan speed, bypass,
+ * temperature profile and operating mode.
+ */
+export class EnableScheduleEntryMessage extends RmiMessage {
+    public readonly action = 'enable schedule entry';
+
+    /**
+     * @param subunit The subunit of the SCHEDULE unit, for example 1 for the fan speed.
+     * @param entryType The type of schedule entry, 1 for a manual override and 6 for a timed override such as boost.
+     * @param entry The value of the entry; when omitted only the entry type is sent.
+     * @param node The node to send the command to; defaults to the ventilation unit.
+     */
+    constructor(
+        subunit: number,
+        public readonly entryType: number,
+        public readonly entry?: ScheduleEntryValue,
+        node?: NodeTypes | number,
+    ) {
+        super(RmiCommand.ENABLE_SCHEDULE_ENTRY, UnitTypes.SCHEDULE, subunit, node);
+    }
+
+    public decode() {}
+
+    protected encodeArguments() {
+        if (!this.entry) {
+            return Buffer.from([this.entryType]);
+        }
+        const args = Buffer.alloc(10);
+        args.writeUInt8(this.entryType, 0);
+        args.writeUInt32LE(this.entry.start ?? 0, 1);
+        args.writeUInt32LE(this.entry.duration, 5);
+        args.writeUInt8(this.entry.value, 9);
+        return args;
+    }
+}
+
+/**
+ * Disables a schedule entry of a subunit of the SCHEDULE unit, reverting the subunit to its automatic behaviour.
+ */
+export class DisableScheduleEntryMessage extends RmiMessage {
+    public readonly action = 'disable schedule entry';
+
+    /**
+     * @param subunit The subunit of the SCHEDULE unit, for example 1 for the fan speed.
+     * @param entryType The type of schedule entry to disable.
+     * @param node The node to send the command to; defaults to the ventilation unit.
+     */
+    constructor(
+        subunit: number,
+        public readonly entryType: number,
+        node?: NodeTypes | number,
+    ) {
+        super(RmiCommand.DISABLE_SCHEDULE_ENTRY, UnitTypes.SCHEDULE, subunit, node);
+    }
+
+    public decode() {}
+
+    protected encodeArguments() {
+        return Buffer.from([this.entryType]);
+    }
+}
+
+export interface ScheduleEntryResponse {
+    /**
+     * Whether the entry is active; the unit also answers for entries that are not active.
+     */
+    active: boolean;
+    /**
+     * The value of the active entry, for example the fan speed for the fan subunit.
+     */
+    value: number;
+    /**
+     * The raw payload of the response.
+     */
+    raw: Buffer;
+}
+
+/**
+ * Reads the active schedule entry of a subunit of the SCHEDULE unit.
+ */
+export class GetScheduleEntryMessage extends RmiMessage<ScheduleEntryResponse> {
+    public readonly action = 'read schedule entry';
+
+    /**
+     * @param subunit The subunit of the SCHEDULE unit, for example 1 for the fan speed.
+     * @param entryType The type of schedule entry to read.
+     * @param node The node to send the command to; defaults to the ventilation unit.
+     */
+    constructor(
+        subunit: number,
+        public readonly entryType: number,
+        node?: NodeTypes | number,
+    ) {
+        super(RmiCommand.GET_SCHEDULE_ENTRY, UnitTypes.SCHEDULE, subunit, node);
+    }
+
+    public decode(response: Buffer): ScheduleEntryResponse {
+        // The response starts with the active flag and ends with the value of the entry, for example
+        // `01 00000000 ffffffff ffffffff 01` for an active manual entry and `00 00000000 ffffffff 00000000` when it
+        // is not active (see the get_mode and get_boost calls of aiocomfoconnect)
+        return {
+            active: response.length > 0 && response.readUInt8(0) === 0x01,
+            value: response.length ? response.readUInt8(response.length - 1) : 0,
+            raw: response,
+        };
+    }
+
+    protected encodeArguments() {
+        return Buffer.from([this.entryType]);
+    }
+}
+
+/**
+ * Resets the active errors of the ERROR unit, the same as acknowledging the errors on the display of the unit.
+ */
+export class ResetErrorsMessage extends RmiMessage {
+    public readonly action = 'reset errors';
+
+    /**
+     * @param node The node to send the command to; defaults to the ventilation unit.
+     */
+    constructor(node?: NodeTypes | number) {
+        super(RmiCommand.RESET_ERRORS, UnitTypes.ERROR, 1, node);
+    }
+
+    public decode() {}
+
+    protected encodeArguments() {
+        return Buffer.alloc(0);
+    }
+}
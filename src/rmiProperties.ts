@@ -1,4 +1,12 @@
-import { PropertyDataType } from './deviceProperties';
+import {
+    EnumMapping,
+    PropertyDataType,
+    enumMapping,
+    PropertyNativeType,
+    deserializePropertyValue,
+    serializePropertyValue,
+} from './deviceProperties';
+import { InvalidArgumentError } from './errors';
 
 export enum NodeTypes {
     VENTILATION_UNIT = 1,
@@ -6,18 +14,7 @@ export enum NodeTypes {
     COMFOCONTROL_GATEWAY = 55,
 }
 
-export enum ErrorCodes {
-    NO_ERROR = 0,
-    UNKNOWN_COMMAND = 11,
-    UNKNOWN_UNIT = 12,
-    UNKNOWN_SUBUNIT = 13,
-    UNKNOWN_PROPERTY = 14,
-    TYPE_CANNOT_HAVE_RANGE = 15,
-    VALUE_NOT_IN_RANGE = 30,
-    PROPERTY_NOT_GETTABLE_OR_SETTABLE = 32,
-    INTERNAL_ERROR = 40,
-    INTERNAL_ERROR_COMMAND_WRONG = 41,
-}
+export { ErrorCodes } from './errors';
 
 export interface NodeProperty {
     node: NodeTypes;
@@ -29,6 +26,46 @@ export interface NodeProperty {
     propertyId: number;
     dataType: PropertyDataType;
     access?: 'ro' | 'rw';
+    /**
+     * Converts between the raw value stored by the unit and the value in the {@link physicalUnit}.
+     * Values are not scaled when not specified.
+     */
+    scale?: PropertyScaling;
+    /**
+     * The physical unit of the (scaled) value, such as `°C`, `m³/h`, `%` or `days`.
+     */
+    physicalUnit?: string;
+    /**
+     * Maps the raw values of an enumerated property to the members of an enum, values are read and written as enum members.
+     */
+    enumValues?: EnumMapping;
+}
+
+/**
+ * Two-way conversion between the raw value of a numeric property and its value in the physical unit.
+ */
+export interface PropertyScaling {
+    /**
+     * Converts a raw value read from the unit into the value in the physical unit.
+     */
+    decode(raw: number): number;
+    /**
+     * Converts a value in the physical unit into the raw value that is written to the unit.
+     */
+    encode(value: number): number;
+}
+
+/**
+ * Scaling for properties that store a fraction of their physical unit, for example tenths of a degree.
+ * Encoded values are rounded to the nearest raw value.
+ * @param divisor The number of raw steps in one physical unit, for example 10 for tenths.
+ * @returns The scaling.
+ */
+export function scaleBy(divisor: number): PropertyScaling {
+    return {
+        decode: (raw) => raw / divisor,
+        encode: (value) => Math.round(value * divisor),
+    };
 }
 
 /**
@@ -82,7 +119,70 @@ export enum UnitTypes {
 }
 
 /**
- * Known properties of each subunit.
+ * Number of subunits of each unit of the ventilation unit.
+ */
+export const UnitSubunitCounts: Readonly<Record<UnitTypes, number>> = {
+    [UnitTypes.NODE]: 1,
+    [UnitTypes.COMFOBUS]: 1,
+    [UnitTypes.ERROR]: 1,
+    [UnitTypes.SCHEDULE]: 10,
+    [UnitTypes.VALVE]: 2,
+    [UnitTypes.FAN]: 2,
+    [UnitTypes.POWERSENSOR]: 1,
+    [UnitTypes.PREHEATER]: 1,
+    [UnitTypes.HMI]: 1,
+    [UnitTypes.RFCOMMUNICATION]: 1,
+    [UnitTypes.FILTER]: 1,
+    [UnitTypes.TEMPHUMCONTROL]: 1,
+    [UnitTypes.VENTILATIONCONFIG]: 1,
+    [UnitTypes.NODECONFIGURATION]: 1,
+    [UnitTypes.TEMPERATURESENSOR]: 6,
+    [UnitTypes.HUMIDITYSENSOR]: 6,
+    [UnitTypes.PRESSURESENSOR]: 2,
+    [UnitTypes.PERIPHERALS]: 1,
+    [UnitTypes.ANALOGINPUT]: 4,
+    [UnitTypes.COOKERHOOD]: 1,
+    [UnitTypes.POSTHEATER]: 1,
+    [UnitTypes.COMFOFOND]: 1,
+};
+
+/**
+ * Decoded value of the sensor based ventilation settings in {@link VentilationUnitProperties.TEMPHUMCONTROL}.
+ */
+export enum SensorVentilationMode {
+    /** The setting is disabled. */
+    Off = 0,
+    /** The setting is only active while the unit is in automatic mode. */
+    AutoOnly = 1,
+    /** The setting is always active. */
+    On = 2,
+}
+
+/**
+ * Decoded value of {@link VentilationUnitProperties.VENTILATIONCONFIG.BATHROOM_SWITCH_MODE}.
+ */
+export enum BathroomSwitchMode {
+    /** The fans boost while the switch is closed. */
+    Normal = 0,
+    /** The fans boost while the switch is open. */
+    Inverted = 1,
+}
+
+/**
+ * Decoded value of {@link VentilationUnitProperties.NODECONFIGURATION.ORIENTATION}.
+ */
+export enum Orientation {
+    /** The supply air connection is on the left side of the unit. */
+    Left = 0,
+    /** The supply air connection is on the right side of the unit. */
+    Right = 1,
+}
+
+/**
+ * Known properties of each unit. Properties of units with multiple subunits target the first subunit; use
+ * {@link forSubunit} to address the other subunits. Only the NODE, TEMPHUMCONTROL, VENTILATIONCONFIG and
+ * NODECONFIGURATION units have documented property IDs; the other units, such as FAN or TEMPERATURESENSOR, are not
+ * listed. Use the `RmiPropertyScanner` to discover their properties.
  */
 export const VentilationUnitProperties = {
     NODE: {
@@ -145,6 +245,8 @@ export const VentilationUnitProperties = {
             propertyId: 0x02,
             dataType: PropertyDataType.CN_INT16,
             access: 'rw',
+            scale: scaleBy(10),
+            physicalUnit: '°C',
         },
         RMOT_COOLING_PERIOD: {
             node: NodeTypes.VENTILATION_UNIT,
@@ -152,6 +254,8 @@ export const VentilationUnitProperties = {
             propertyId: 0x03,
             dataType: PropertyDataType.CN_INT16,
             access: 'rw',
+            scale: scaleBy(10),
+            physicalUnit: '°C',
         },
         PASSIVE_TEMPERATURE_CONTROL: {
             node: NodeTypes.VENTILATION_UNIT,
@@ -159,6 +263,7 @@ export const VentilationUnitProperties = {
             propertyId: 0x04,
             dataType: PropertyDataType.CN_UINT8,
             access: 'rw',
+            enumValues: enumMapping(SensorVentilationMode),
         },
         // "UNKNOWN_5": { node: NodeTypes.VENTILATION_UNIT, unit: UnitTypes.TEMPHUMCONTROL, propertyId: 0x05, dataType: PropertyDataType.CN_UINT8, access: "rw" },
         HUMIDITY_COMFORT_CONTROL: {
@@ -167,6 +272,7 @@ export const VentilationUnitProperties = {
             propertyId: 0x06,
             dataType: PropertyDataType.CN_UINT8,
             access: 'rw',
+            enumValues: enumMapping(SensorVentilationMode),
         },
         HUMIDITY_PROTECTION: {
             node: NodeTypes.VENTILATION_UNIT,
@@ -174,6 +280,7 @@ export const VentilationUnitProperties = {
             propertyId: 0x07,
             dataType: PropertyDataType.CN_UINT8,
             access: 'rw',
+            enumValues: enumMapping(SensorVentilationMode),
         },
         // "UNKNOWN_8": { node: NodeTypes.VENTILATION_UNIT, unit: UnitTypes.TEMPHUMCONTROL, propertyId: 0x08, dataType: PropertyDataType.CN_UINT8, access: "rw" },
         TARGET_TEMPERATURE_HEATING: {
@@ -182,6 +289,8 @@ export const VentilationUnitProperties = {
             propertyId: 0x0a,
             dataType: PropertyDataType.CN_INT16,
             access: 'rw',
+            scale: scaleBy(10),
+            physicalUnit: '°C',
         },
         TARGET_TEMPERATURE_NORMAL: {
             node: NodeTypes.VENTILATION_UNIT,
@@ -189,6 +298,8 @@ export const VentilationUnitProperties = {
             propertyId: 0x0b,
             dataType: PropertyDataType.CN_INT16,
             access: 'rw',
+            scale: scaleBy(10),
+            physicalUnit: '°C',
         },
         TARGET_TEMPERATURE_COOLING: {
             node: NodeTypes.VENTILATION_UNIT,
@@ -196,6 +307,8 @@ export const VentilationUnitProperties = {
             propertyId: 0x0c,
             dataType: PropertyDataType.CN_INT16,
             access: 'rw',
+            scale: scaleBy(10),
+            physicalUnit: '°C',
         },
         // "UNKNOWN_13": { node: NodeTypes.VENTILATION_UNIT, unit: UnitTypes.TEMPHUMCONTROL, propertyId: 0x0D, dataType: PropertyDataType.CN_UINT8 },
     },
@@ -208,6 +321,7 @@ export const VentilationUnitProperties = {
             propertyId: 0x03,
             dataType: PropertyDataType.CN_INT16,
             access: 'rw',
+            physicalUnit: 'm³/h',
         },
         VENTILATION_SPEED_LOW: {
             node: NodeTypes.VENTILATION_UNIT,
@@ -215,6 +329,7 @@ export const VentilationUnitProperties = {
             propertyId: 0x04,
             dataType: PropertyDataType.CN_INT16,
             access: 'rw',
+            physicalUnit: 'm³/h',
         },
         VENTILATION_SPEED_MEDIUM: {
             node: NodeTypes.VENTILATION_UNIT,
@@ -222,6 +337,7 @@ export const VentilationUnitProperties = {
             propertyId: 0x05,
             dataType: PropertyDataType.CN_INT16,
             access: 'rw',
+            physicalUnit: 'm³/h',
         },
         VENTILATION_SPEED_HIGH: {
             node: NodeTypes.VENTILATION_UNIT,
@@ -229,12 +345,14 @@ export const VentilationUnitProperties = {
             propertyId: 0x06,
             dataType: PropertyDataType.CN_INT16,
             access: 'rw',
+            physicalUnit: 'm³/h',
         },
         HEIGHT_ABOVE_SEA_LEVEL: {
             node: NodeTypes.VENTILATION_UNIT,
             unit: UnitTypes.VENTILATIONCONFIG,
             propertyId: 0x07,
             dataType: PropertyDataType.CN_UINT8,
+            physicalUnit: 'm',
         },
         // "UNKNOWN_8": { node: NodeTypes.VENTILATION_UNIT, unit: UnitTypes.VENTILATIONCONFIG, propertyId: 0x08, dataType: PropertyDataType.CN_INT16 },
         VENTILATION_CONTROL_MODE: {
@@ -244,32 +362,40 @@ export const VentilationUnitProperties = {
             dataType: PropertyDataType.CN_UINT8,
         },
         // "UNKNOWN_10": { node: NodeTypes.VENTILATION_UNIT, unit: UnitTypes.VENTILATIONCONFIG, propertyId: 0x0A, dataType: PropertyDataType.CN_INT16 },
+        /** Delay in seconds before the bathroom switch boosts the ventilation */
         BATHROOM_SWITCH_ACTIVATION_DELAY: {
             node: NodeTypes.VENTILATION_UNIT,
             unit: UnitTypes.VENTILATIONCONFIG,
             propertyId: 0x0b,
             dataType: PropertyDataType.CN_INT16,
+            physicalUnit: 's',
         },
+        /** Delay in minutes before the ventilation reverts after the bathroom switch is turned off */
         BATHROOM_SWITCH_DEACTIVATION_DELAY: {
             node: NodeTypes.VENTILATION_UNIT,
             unit: UnitTypes.VENTILATIONCONFIG,
             propertyId: 0x0c,
             dataType: PropertyDataType.CN_UINT8,
+            physicalUnit: 'min',
         },
         BATHROOM_SWITCH_MODE: {
             node: NodeTypes.VENTILATION_UNIT,
             unit: UnitTypes.VENTILATIONCONFIG,
             propertyId: 0x0d,
             dataType: PropertyDataType.CN_UINT8,
+            enumValues: enumMapping(BathroomSwitchMode),
         },
         // "UNKNOWN_14": { node: NodeTypes.VENTILATION_UNIT, unit: UnitTypes.VENTILATIONCONFIG, propertyId: 0x0E, dataType: PropertyDataType.CN_UINT8 },
         // "UNKNOWN_15": { node: NodeTypes.VENTILATION_UNIT, unit: UnitTypes.VENTILATIONCONFIG, propertyId: 0x0F, dataType: PropertyDataType.CN_UINT8 },
         // "UNKNOWN_17": { node: NodeTypes.VENTILATION_UNIT, unit: UnitTypes.VENTILATIONCONFIG, propertyId: 0x11, dataType: PropertyDataType.CN_INT16 },
+        /** Unbalance between the supply and exhaust air flow in percent, stored in tenths of a percent */
         UNBALANCE: {
             node: NodeTypes.VENTILATION_UNIT,
             unit: UnitTypes.VENTILATIONCONFIG,
             propertyId: 0x12,
             dataType: PropertyDataType.CN_INT16,
+            scale: scaleBy(10),
+            physicalUnit: '%',
         },
         // "UNKNOWN_19": { node: NodeTypes.VENTILATION_UNIT, unit: UnitTypes.VENTILATIONCONFIG, propertyId: 0x13, dataType: PropertyDataType.CN_INT16 },
         // "UNKNOWN_20": { node: NodeTypes.VENTILATION_UNIT, unit: UnitTypes.VENTILATIONCONFIG, propertyId: 0x14, dataType: PropertyDataType.CN_INT16 },
@@ -297,6 +423,7 @@ export const VentilationUnitProperties = {
             unit: UnitTypes.NODECONFIGURATION,
             propertyId: 0x04,
             dataType: PropertyDataType.CN_UINT8,
+            enumValues: enumMapping(Orientation),
         },
         // "UNKNOWN_5": { node: NodeTypes.VENTILATION_UNIT, unit: UnitTypes.NODECONFIGURATION, propertyId: 0x05, dataType: PropertyDataType.CN_UINT8 },
         // "UNKNOWN_6": { node: NodeTypes.VENTILATION_UNIT, unit: UnitTypes.NODECONFIGURATION, propertyId: 0x06, dataType: PropertyDataType.CN_UINT8 },
@@ -307,3 +434,54 @@ export const VentilationUnitProperties = {
         // "UNKNOWN_12": { node: NodeTypes.VENTILATION_UNIT, unit: UnitTypes.NODECONFIGURATION, propertyId: 0x0C, dataType: PropertyDataType.CN_UINT8 },
     },
 } as const;
+
+/**
+ * Returns a copy of a property that targets another subunit of the same unit, for example the second fan.
+ *
+ * @example
+ * ```typescript
+ * // A fan property discovered with the RmiPropertyScanner
+ * const fanSpeed: NodeProperty = {
+ *     node: NodeTypes.VENTILATION_UNIT,
+ *     unit: UnitTypes.FAN,
+ *     propertyId: 0x01,
+ *     dataType: PropertyDataType.CN_UINT16,
+ * };
+ * const supplyFanSpeed = await client.readProperty(forSubunit(fanSpeed, 2));
+ * ```
+ *
+ * @param prop The property to copy.
+ * @param subunit The subunit to target, from 1 up to the number of subunits in {@link UnitSubunitCounts}.
+ * @returns The property targeting the subunit.
+ */
+export function forSubunit<T extends NodeProperty>(prop: T, subunit: number): T & { subunit: number } {
+    const count = UnitSubunitCounts[prop.unit] ?? 1;
+    if (!Number.isInteger(subunit) || subunit < 1 || subunit > count) {
+        throw new InvalidArgumentError(
+            `Invalid subunit ${subunit} for unit ${UnitTypes[prop.unit]}; expected 1 to ${count}`,
+        );
+    }
+    return { ...prop, subunit };
+}
+
+/**
+ * Deserializes the raw value of an RMI property and applies the {@link NodeProperty.scale} of the property.
+ * @param prop The property the value belongs to.
+ * @param data The raw value of the property.
+ * @returns The value of the property in its physical unit.
+ */
+export function decodeNodePropertyValue<T extends NodeProperty>(prop: T, data: Buffer): PropertyNativeType<T> {
+    const value = deserializePropertyValue(prop, data);
+    return (prop.scale && typeof value === 'number' ? prop.scale.decode(value) : value) as PropertyNativeType<T>;
+}
+
+/**
+ * Reverts the {@link NodeProperty.scale} of an RMI property and serializes the value.
+ * @param prop The property the value belongs to.
+ * @param value The value of the property in its physical unit.
+ * @returns The raw value of the property.
+ */
+export function encodeNodePropertyValue<T extends NodeProperty>(prop: T, value: PropertyNativeType<T>): Buffer {
+    const raw = prop.scale && typeof value === 'number' ? prop.scale.encode(value) : value;
+    return serializePropertyValue(prop, raw as PropertyNativeType<T>);
+}
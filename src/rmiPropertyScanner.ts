@@ -0,0 +1,306 @@
+import { EventEmitter } from 'node:events';
+import { PropertyDataType } from './deviceProperties';
+import { ErrorCodes, NodeProperty, NodeTypes, UnitTypes, VentilationUnitProperties } from './rmiProperties';
+import { RmiCommand, RmiMessage } from './rmiMessage';
+import { RmiError } from './errors';
+import { Logger } from './util/logging/index';
+import type { ComfoControlClient } from './comfoControlClient';
+
+export interface RmiScanOptions {
+    /**
+     * The nodes to scan. Defaults to the ventilation unit.
+     */
+    nodes?: number[];
+    /**
+     * The units to scan. Defaults to all {@link UnitTypes}.
+     */
+    units?: UnitTypes[];
+    /**
+     * The highest subunit to scan for each unit; scanning a unit stops at the first subunit the unit does not know.
+     * Defaults to 10.
+     */
+    maxSubunit?: number;
+    /**
+     * The property IDs to scan in each subunit. Defaults to all property IDs from 1 to 255.
+     */
+    propertyIds?: number[];
+    /**
+     * Check if readable properties are settable by writing the value that was read back to the property.
+     * Only enable this on a unit you are prepared to reconfigure. Defaults to false.
+     */
+    probeSettable?: boolean;
+    /**
+     * Signal to stop the scan; the properties found so far are returned.
+     */
+    abortSignal?: AbortSignal;
+}
+
+export interface RmiScanResult {
+    node: number;
+    unit: UnitTypes;
+    /**
+     * The name of the unit, see {@link UnitTypes}.
+     */
+    unitName: string;
+    subunit: number;
+    propertyId: number;
+    /**
+     * The name of the property in {@link VentilationUnitProperties}, undefined for properties that are not known yet.
+     */
+    name?: string;
+    /**
+     * False when the unit knows the property but does not allow reading it.
+     */
+    readable: boolean;
+    /**
+     * The raw value of the property encoded as HEX string.
+     */
+    raw?: string;
+    /**
+     * The data type guessed from the raw value, see {@link guessPropertyDataType}.
+     */
+    guessedDataType?: keyof typeof PropertyDataType;
+    /**
+     * Whether the property accepted its own value being written back; undefined when settability was not probed.
+     */
+    settable?: boolean;
+}
+
+/**
+ * Writes raw bytes to a property, used to probe if a property is settable without knowing its data type.
+ */
+class SetRawPropertyMessage extends RmiMessage {
+    public readonly action = 'write property';
+
+    constructor(
+        node: number,
+        unit: UnitTypes,
+        subunit: number,
+        private readonly propertyId: number,
+        private readonly raw: Buffer,
+    ) {
+        super(RmiCommand.SET_PROPERTY, unit, subunit, node);
+    }
+
+    public decode() {}
+
+    protected encodeArguments() {
+        return Buffer.concat([Buffer.from([this.propertyId]), this.raw]);
+    }
+}
+
+/**
+ * Guesses the data type of a raw property value. Values that hold printable text are guessed as {@link PropertyDataType.CN_STRING},
+ * other values are guessed as unsigned integers by their length. The guess is a starting point; signedness and booleans
+ * cannot be told apart from a single value.
+ * @param raw The raw value of the property.
+ * @returns The guessed data type, or undefined if the value does not match any data type.
+ */
+export function guessPropertyDataType(raw: Buffer): PropertyDataType | undefined {
+    const text = raw.at(-1) === 0 ? raw.subarray(0, -1) : raw;
+    const printable = text.length > 0 && text.every((byte) => byte >= 0x20 && byte < 0x7f);
+    if (printable && (text.length !== raw.length || ![1, 2, 4, 8].includes(raw.length))) {
+        return PropertyDataType.CN_STRING;
+    }
+
+    switch (raw.length) {
+        case 1:
+            return PropertyDataType.CN_UINT8;
+        case 2:
+            return PropertyDataType.CN_UINT16;
+        case 4:
+            return PropertyDataType.CN_UINT32;
+        case 8:
+            return PropertyDataType.CN_INT64;
+    }
+    return undefined;
+}
+
+/**
+ * The methods of the {@link ComfoControlClient} the {@link RmiPropertyScanner} uses to read and probe properties.
+ */
+export type RmiScannerClient = Pick<ComfoControlClient, 'readPropertyRawValue' | 'executeRmi'>;
+
+/**
+ * Scans the RMI properties of ComfoNet nodes to discover properties that are not in {@link VentilationUnitProperties} yet.
+ * Every property ID of every subunit is read one by one; properties the unit answers are reported with their raw value
+ * and a guessed data type. Export the results with {@link RmiPropertyScanner.toJson} to compare units and firmware versions.
+ *
+ * Scanning all units takes a while as each property is a separate request; limit the units and property IDs to speed it up.
+ *
+ * @example
+ * ```typescript
+ * const scanner = new RmiPropertyScanner(client);
+ * scanner.on('property', (result) => console.log(result));
+ * const results = await scanner.scan({ units: [UnitTypes.NODE, UnitTypes.TEMPHUMCONTROL] });
+ * await fs.writeFile('scan.json', RmiPropertyScanner.toJson(results));
+ * ```
+ *
+ * Events:
+ * - property: emitted for each property the unit answers
+ */
+export class RmiPropertyScanner extends EventEmitter<{
+    property: [result: RmiScanResult];
+}> {
+    constructor(
+        private readonly client: RmiScannerClient,
+        private readonly logger: Logger = new Logger('RmiPropertyScanner'),
+    ) {
+        super();
+    }
+
+    /**
+     * Scans the properties of the nodes, units and subunits in the options.
+     * @param options The nodes, units, subunits and property IDs to scan.
+     * @returns {Promise<RmiScanResult[]>} A promise that resolves to the properties that were found, ordered by node, unit, subunit and property ID.
+     * @throws Will throw an error if a request fails for another reason than the unit rejecting the property.
+     */
+    public async scan(options: RmiScanOptions = {}): Promise<RmiScanResult[]> {
+        const units =
+            options.units ?? Object.values(UnitTypes).filter((unit): unit is UnitTypes => typeof unit === 'number');
+        const propertyIds = options.propertyIds ?? Array.from({ length: 255 }, (_, i) => i + 1);
+        const results: RmiScanResult[] = [];
+
+        for (const node of options.nodes ?? [NodeTypes.VENTILATION_UNIT]) {
+            for (const unit of units) {
+                this.logger.info(`Scanning ${UnitTypes[unit] ?? 'UNKNOWN'} (${unit}) of node ${node}`);
+                for (let subunit = 1; subunit <= (options.maxSubunit ?? 10); subunit++) {
+                    if (!(await this.scanSubunit(node, unit, subunit, propertyIds, options, results))) {
+                        break;
+                    }
+                }
+                if (options.abortSignal?.aborted) {
+                    this.logger.warn('Scan aborted');
+                    return results;
+                }
+            }
+        }
+
+        return results;
+    }
+
+    /**
+     * Scans the property IDs of a single subunit and adds the properties that were found to the results.
+     * @returns False when the unit does not know the unit or subunit, or the scan was aborted.
+     */
+    private async scanSubunit(
+        node: number,
+        unit: UnitTypes,
+        subunit: number,
+        propertyIds: number[],
+        options: RmiScanOptions,
+        results: RmiScanResult[],
+    ): Promise<boolean> {
+        for (const propertyId of propertyIds) {
+            if (options.abortSignal?.aborted) {
+                return false;
+            }
+
+            let result: RmiScanResult | undefined;
+            try {
+                result = await this.scanProperty(node, unit, subunit, propertyId, options.probeSettable);
+            } catch (err) {
+                if (!(err instanceof RmiError)) {
+                    throw err;
+                }
+                if (err.errorCode === ErrorCodes.UNKNOWN_UNIT || err.errorCode === ErrorCodes.UNKNOWN_SUBUNIT) {
+                    return false;
+                }
+                if (err.errorCode === ErrorCodes.PROPERTY_NOT_GETTABLE_OR_SETTABLE) {
+                    result = this.createResult(node, unit, subunit, propertyId, { readable: false });
+                }
+            }
+
+            if (result) {
+                results.push(result);
+                this.emit('property', result);
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Exports scan results as JSON that can be compared between units and firmware versions.
+     * @param results The results of a scan.
+     * @returns The results formatted as JSON.
+     */
+    public static toJson(results: RmiScanResult[]): string {
+        return JSON.stringify(results, null, 2);
+    }
+
+    private async scanProperty(
+        node: number,
+        unit: UnitTypes,
+        subunit: number,
+        propertyId: number,
+        probeSettable?: boolean,
+    ): Promise<RmiScanResult> {
+        const property: NodeProperty = { node, unit, subunit, propertyId, dataType: PropertyDataType.CN_UINT8 };
+        const raw = await this.client.readPropertyRawValue(property);
+        const dataType = guessPropertyDataType(raw);
+
+        return this.createResult(node, unit, subunit, propertyId, {
+            readable: true,
+            raw: raw.toString('hex'),
+            guessedDataType:
+                dataType === undefined ? undefined : (PropertyDataType[dataType] as keyof typeof PropertyDataType),
+            settable: probeSettable ? await this.probeSettable(node, unit, subunit, propertyId, raw) : undefined,
+        });
+    }
+
+    private async probeSettable(
+        node: number,
+        unit: UnitTypes,
+        subunit: number,
+        propertyId: number,
+        raw: Buffer,
+    ): Promise<boolean | undefined> {
+        try {
+            await this.client.executeRmi(new SetRawPropertyMessage(node, unit, subunit, propertyId, raw));
+            return true;
+        } catch (err) {
+            if (!(err instanceof RmiError)) {
+                throw err;
+            }
+            if (err.errorCode === ErrorCodes.PROPERTY_NOT_GETTABLE_OR_SETTABLE) {
+                return false;
+            }
+            // The unit accepts writes to the property but not the value that was read, for example for write-only commands
+            return err.errorCode === ErrorCodes.VALUE_NOT_IN_RANGE ? true : undefined;
+        }
+    }
+
+    private createResult(
+        node: number,
+        unit: UnitTypes,
+        subunit: number,
+        propertyId: number,
+        details: Pick<RmiScanResult, 'readable' | 'raw' | 'guessedDataType' | 'settable'>,
+    ): RmiScanResult {
+        return {
+            node,
+            unit,
+            unitName: UnitTypes[unit] ?? 'UNKNOWN',
+            subunit,
+            propertyId,
+            name: RmiPropertyScanner.getKnownPropertyName(node, unit, subunit, propertyId),
+            ...details,
+        };
+    }
+
+    private static getKnownPropertyName(node: number, unit: UnitTypes, subunit: number, propertyId: number) {
+        for (const properties of Object.values(VentilationUnitProperties)) {
+            for (const [name, prop] of Object.entries(properties) as Array<[string, NodeProperty]>) {
+                if (
+                    prop.node === node &&
+                    prop.unit === unit &&
+                    (prop.subunit ?? 1) === subunit &&
+                    prop.propertyId === propertyId
+                ) {
+                    return name;
+                }
+            }
+        }
+        return undefined;
+    }
+}
@@ -11,13 +11,14 @@ export function wait(ms: number): Promise<void> {
  * Utility function to add a timeout to a promise, the promise will be rejected with an error if it does not resolve within the given time.
  * @param promise The promise to add a timeout to.
  * @param ms The number of milliseconds to wait before rejecting the promise.
- * @param errorMessage The error message to use when the promise times out.
+ * @param error The error message to use when the promise times out, or a factory that creates the error to reject with.
  * @returns A promise that resolves when the given promise resolves or rejects when the given promise rejects or times out.
  */
-export function timeout<T>(promise: Promise<T>, ms: number, errorMessage: string): Promise<T> {
+export function timeout<T>(promise: Promise<T>, ms: number, error: string | (() => Error)): Promise<T> {
     let timeoutHandle: NodeJS.Timeout;
     const timeoutPromise = new Promise<T>(
-        (_, reject) => (timeoutHandle = setTimeout(() => reject(new Error(errorMessage)), ms)),
+        (_, reject) =>
+            (timeoutHandle = setTimeout(() => reject(typeof error === 'string' ? new Error(error) : error()), ms)),
     );
     const awaitedPromise = promise
         .then((value) => {